@@ -41,8 +41,9 @@ export class AdalClient extends BearerTokenFetchClient {
      * @param clientId Azure App Id
      * @param tenant Office 365 tenant (Ex: {tenant}.onmicrosoft.com)
      * @param redirectUri The redirect url used to authenticate the 
+     * @param authority Optional authority used to sign in, for national clouds (Ex: https://login.microsoftonline.us/)
      */
-    constructor(public clientId: string, public tenant: string, public redirectUri: string) {
+    constructor(public clientId: string, public tenant: string, public redirectUri: string, public authority?: string) {
         super(null);
         this._displayCallback = null;
         this._loginPromise = null;
@@ -118,6 +119,7 @@ export class AdalClient extends BearerTokenFetchClient {
                             this._displayCallback(url);
                         }
                     },
+                    instance: this.authority,
                     navigateToLoginRequestUrl: false,
                     redirectUri: this.redirectUri,
                     tenant: this.tenant,
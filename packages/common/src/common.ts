@@ -1,7 +1,9 @@
 export * from "./adalclient";
 export * from "./collections";
 export * from "./libconfig";
+export * from "./limiter";
 export * from "./netutil";
+export * from "./retry";
 export * from "./spfxcontextinterface";
 export * from "./storage";
 export * from "./util";
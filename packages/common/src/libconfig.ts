@@ -1,5 +1,7 @@
 import { TypedHash, mergeMaps, objectToMap } from "./collections";
 import { ISPFXContext } from "./spfxcontextinterface";
+import { RetryPolicy } from "./retry";
+import { RequestLimiter } from "./limiter";
 
 export interface LibraryConfiguration {
 
@@ -9,9 +11,9 @@ export interface LibraryConfiguration {
     globalCacheDisable?: boolean;
 
     /**
-     * Defines the default store used by the usingCaching method, default: session
+     * Defines the default store used by the usingCaching method, "session", "local" or the name of a registered store, default: session
      */
-    defaultCachingStore?: "session" | "local";
+    defaultCachingStore?: string;
 
     /**
      * Defines the default timeout in seconds used by the usingCaching method, default 30
@@ -32,6 +34,21 @@ export interface LibraryConfiguration {
      * Used to supply the current context from an SPFx webpart to the library
      */
     spfxContext?: any;
+
+    /**
+     * If true identical GET requests sent while one is already in flight share its result instead of being sent again, default: false
+     */
+    enableRequestDeduplication?: boolean;
+
+    /**
+     * Defines how throttled and failed requests are retried, can be overridden for each library, default: 7 attempts with doubling backoff from 100ms
+     */
+    retryPolicy?: RetryPolicy;
+
+    /**
+     * Limits the number of requests sent in parallel and per second, can be overridden for each library, default: null (no limit)
+     */
+    requestLimiter?: RequestLimiter | null;
 }
 
 export function setup(config: LibraryConfiguration): void {
@@ -46,6 +63,9 @@ const s = [
     "enableCacheExpiration",
     "cacheExpirationIntervalMilliseconds",
     "spfxContext",
+    "enableRequestDeduplication",
+    "retryPolicy",
+    "requestLimiter",
 ];
 
 export class RuntimeConfigImpl {
@@ -59,6 +79,9 @@ export class RuntimeConfigImpl {
         this._v.set(s[3], false);
         this._v.set(s[4], 750);
         this._v.set(s[5], null);
+        this._v.set(s[6], false);
+        this._v.set(s[7], {});
+        this._v.set(s[8], null);
     }
 
     /**
@@ -73,7 +96,7 @@ export class RuntimeConfigImpl {
         return this._v.get(key);
     }
 
-    public get defaultCachingStore(): "session" | "local" {
+    public get defaultCachingStore(): string {
         return this.get(s[0]);
     }
 
@@ -96,6 +119,18 @@ export class RuntimeConfigImpl {
     public get spfxContext(): ISPFXContext {
         return this.get(s[5]);
     }
+
+    public get enableRequestDeduplication(): boolean {
+        return this.get(s[6]);
+    }
+
+    public get retryPolicy(): RetryPolicy {
+        return this.get(s[7]);
+    }
+
+    public get requestLimiter(): RequestLimiter | null {
+        return this.get(s[8]);
+    }
 }
 
 const _runtimeConfig = new RuntimeConfigImpl();
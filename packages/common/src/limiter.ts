@@ -0,0 +1,216 @@
+import { CancellationError, isAborted } from "./netutil";
+import { objectDefinedNotNull } from "./util";
+
+export interface RequestLimiterOptions {
+
+    /**
+     * The maximum number of requests sent at the same time, default: 0 (no limit)
+     */
+    maxConcurrency?: number;
+
+    /**
+     * The number of requests which can be started each second, default: 0 (no limit)
+     */
+    tokensPerSecond?: number;
+
+    /**
+     * The number of requests which can be started at once when tokens have accumulated, default: tokensPerSecond
+     */
+    burst?: number;
+}
+
+export interface RequestLimiterMetrics {
+
+    /**
+     * The number of requests currently being sent
+     */
+    active: number;
+
+    /**
+     * The number of requests waiting to be sent
+     */
+    queued: number;
+
+    /**
+     * The largest number of requests which have been waiting at the same time
+     */
+    peakQueued: number;
+
+    /**
+     * The number of requests which have completed, successfully or not
+     */
+    completed: number;
+}
+
+interface QueuedTask {
+    run: () => void;
+    reject: (reason?: any) => void;
+    signal?: AbortSignal;
+
+    /**
+     * Removes the abort listener added for the task, so a long lived signal does not keep it reachable
+     */
+    detach: () => void;
+}
+
+/**
+ * Limits the number of requests sent in parallel and the rate at which they are started, queueing any beyond those limits
+ */
+export class RequestLimiter {
+
+    private _queue: QueuedTask[] = [];
+    private _active = 0;
+    private _peakQueued = 0;
+    private _completed = 0;
+    private _tokens: number;
+    private _lastRefill: number;
+    private _timeout: any = null;
+
+    /**
+     * Creates a new instance of the RequestLimiter class
+     *
+     * @param options The limits to apply
+     */
+    constructor(public readonly options: RequestLimiterOptions = {}) {
+        this._tokens = this.capacity;
+        this._lastRefill = Date.now();
+    }
+
+    /**
+     * Gets the current queue depth and activity of this limiter
+     */
+    public get metrics(): RequestLimiterMetrics {
+        return {
+            active: this._active,
+            completed: this._completed,
+            peakQueued: this._peakQueued,
+            queued: this._queue.length,
+        };
+    }
+
+    /**
+     * Runs the supplied task once the limits allow, resolving with its result
+     *
+     * @param task The task to run, typically sending a single request
+     * @param signal Optional signal which removes the task from the queue when aborted
+     */
+    public schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+
+        if (isAborted(signal)) {
+            return Promise.reject(new CancellationError());
+        }
+
+        return new Promise<T>((resolve, reject) => {
+
+            const queued: QueuedTask = {
+                detach: () => { /* no listener to remove */ },
+                reject,
+                run: () => {
+
+                    this._active++;
+
+                    // update our counts before settling so callers see the completed state
+                    const done = () => {
+                        this._active--;
+                        this._completed++;
+                        this.next();
+                    };
+
+                    new Promise<T>(r => r(task())).then(v => {
+                        done();
+                        resolve(v);
+                    }, e => {
+                        done();
+                        reject(e);
+                    });
+                },
+                signal,
+            };
+
+            if (objectDefinedNotNull(signal) && typeof signal.addEventListener === "function") {
+                const onAbort = () => this.cancel(queued);
+                signal.addEventListener("abort", onAbort);
+                queued.detach = () => signal.removeEventListener("abort", onAbort);
+            }
+
+            this._queue.push(queued);
+            this._peakQueued = Math.max(this._peakQueued, this._queue.length);
+            this.next();
+        });
+    }
+
+    private get capacity(): number {
+        const rate = this.options.tokensPerSecond || 0;
+        return rate > 0 ? Math.max(this.options.burst || rate, 1) : 0;
+    }
+
+    /**
+     * Starts as many queued tasks as the limits allow
+     */
+    private next(): void {
+
+        const max = this.options.maxConcurrency || 0;
+
+        while (this._queue.length > 0 && (max < 1 || this._active < max)) {
+
+            if (!this.takeToken()) {
+                this.waitForToken();
+                return;
+            }
+
+            const task = this._queue.shift();
+            task.detach();
+
+            if (isAborted(task.signal)) {
+                task.reject(new CancellationError());
+            } else {
+                task.run();
+            }
+        }
+    }
+
+    private takeToken(): boolean {
+
+        const rate = this.options.tokensPerSecond || 0;
+
+        if (rate <= 0) {
+            return true;
+        }
+
+        const now = Date.now();
+        this._tokens = Math.min(this.capacity, this._tokens + (now - this._lastRefill) * rate / 1000);
+        this._lastRefill = now;
+
+        if (this._tokens >= 1) {
+            this._tokens--;
+            return true;
+        }
+
+        return false;
+    }
+
+    private waitForToken(): void {
+
+        if (this._timeout !== null) {
+            return;
+        }
+
+        const wait = Math.ceil((1 - this._tokens) * 1000 / this.options.tokensPerSecond);
+
+        this._timeout = setTimeout(() => {
+            this._timeout = null;
+            this.next();
+        }, wait);
+    }
+
+    private cancel(task: QueuedTask): void {
+
+        const index = this._queue.indexOf(task);
+
+        if (index > -1) {
+            this._queue.splice(index, 1);
+            task.detach();
+            task.reject(new CancellationError());
+        }
+    }
+}
@@ -7,6 +7,7 @@ export interface ConfigOptions {
     mode?: "navigate" | "same-origin" | "no-cors" | "cors";
     credentials?: "omit" | "same-origin" | "include";
     cache?: "default" | "no-store" | "reload" | "no-cache" | "force-cache" | "only-if-cached";
+    signal?: AbortSignal;
 }
 
 export interface FetchOptions extends ConfigOptions {
@@ -27,6 +28,27 @@ export interface RequestClient {
     delete(url: string, options?: FetchOptions): Promise<Response>;
 }
 
+/**
+ * Error used to reject operations cancelled through an AbortSignal
+ */
+export class CancellationError extends Error {
+
+    public isCancellationError = true;
+
+    constructor(message = "The operation was cancelled.") {
+        super(message);
+    }
+}
+
+/**
+ * Determines if the supplied signal exists and has been aborted
+ *
+ * @param signal The signal to check
+ */
+export function isAborted(signal: AbortSignal | null | undefined): boolean {
+    return objectDefinedNotNull(signal) && signal.aborted;
+}
+
 export function mergeHeaders(target: Headers, source: any): void {
     if (source !== undefined && source !== null) {
         const temp = <any>new Request("", { headers: source });
@@ -0,0 +1,288 @@
+import { FetchOptions, CancellationError, isAborted } from "./netutil";
+import { extend, objectDefinedNotNull, stringIsNullOrEmpty } from "./util";
+
+/**
+ * Describes a retry about to be made, supplied to a RetryPolicy's onRetry callback
+ */
+export interface RetryInfo {
+    /**
+     * The number of the attempt which failed, starting at 1
+     */
+    attempt: number;
+
+    /**
+     * The delay in milliseconds before the next attempt is sent
+     */
+    delay: number;
+
+    /**
+     * The url being requested
+     */
+    url: string;
+
+    /**
+     * The response which caused the retry, if the attempt received one
+     */
+    response?: Response;
+
+    /**
+     * The error which caused the retry, if the attempt failed without a response
+     */
+    error?: any;
+}
+
+/**
+ * Defines how failed requests are retried
+ */
+export interface RetryPolicy {
+
+    /**
+     * The maximum number of times a request is sent, including the first attempt, default: 7
+     */
+    maxAttempts?: number;
+
+    /**
+     * The delay in milliseconds before the first retry, default: 100
+     */
+    delay?: number;
+
+    /**
+     * The factor applied to the delay after each retry, default: 2
+     */
+    backoffFactor?: number;
+
+    /**
+     * The maximum delay in milliseconds between attempts, whether calculated from the backoff or read from Retry-After, default: 30000
+     */
+    maxDelay?: number;
+
+    /**
+     * Randomizes each delay by up to this fraction (0 - 1) of its value in either direction, default: 0
+     */
+    jitter?: number;
+
+    /**
+     * If true the Retry-After header, in seconds or as a date, is used as the delay when present, default: true
+     */
+    respectRetryAfter?: boolean;
+
+    /**
+     * Determines if a response with the given status is retried, default: 429 and 503
+     */
+    retryOnStatus?: (status: number) => boolean;
+
+    /**
+     * Determines if a request which failed with the given error is retried, default: transient network errors
+     */
+    retryOnError?: (error: any) => boolean;
+
+    /**
+     * Called before each retry, allowing retries to be logged
+     */
+    onRetry?: (info: RetryInfo) => void;
+}
+
+const transientErrorCodes = ["ETIMEDOUT", "ESOCKETTIMEDOUT", "ECONNREFUSED", "ECONNRESET"];
+
+/**
+ * Determines if the supplied status indicates the request was throttled or the service was temporarily unavailable
+ *
+ * @param status The http status code
+ */
+export function isRetryableStatus(status: number): boolean {
+    return status === 429 || status === 503;
+}
+
+/**
+ * Determines if the supplied error was caused by a transient network failure
+ *
+ * @param error The error with which a request failed
+ */
+export function isTransientError(error: any): boolean {
+
+    if (!objectDefinedNotNull(error)) {
+        return false;
+    }
+
+    if (error.status === 503) {
+        return true;
+    }
+
+    return typeof error.code === "string" && transientErrorCodes.indexOf(error.code.toUpperCase()) > -1;
+}
+
+/**
+ * Converts the value of a Retry-After header to a delay in milliseconds, null if the value cannot be read
+ *
+ * @param value The header value, either a number of seconds or an http date
+ * @param now The time in milliseconds from which a date value is measured
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+
+    if (stringIsNullOrEmpty(value)) {
+        return null;
+    }
+
+    if (/^\s*\d+\s*$/.test(value)) {
+        return parseInt(value, 10) * 1000;
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(date - now, 0);
+}
+
+/**
+ * Fills any values missing from the supplied policy with the defaults
+ *
+ * @param policy The policy to complete
+ */
+export function resolveRetryPolicy(policy: RetryPolicy = {}): RetryPolicy {
+
+    return extend(<RetryPolicy>{
+        backoffFactor: 2,
+        delay: 100,
+        jitter: 0,
+        maxAttempts: 7,
+        maxDelay: 30000,
+        respectRetryAfter: true,
+        retryOnError: isTransientError,
+        retryOnStatus: isRetryableStatus,
+    }, policy);
+}
+
+/**
+ * Gets the delay in milliseconds to wait before the retry following the supplied attempt
+ *
+ * @param policy A resolved retry policy
+ * @param attempt The number of the attempt which failed, starting at 1
+ * @param response The response which caused the retry, if any
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number, response?: Response): number {
+
+    if (policy.respectRetryAfter && objectDefinedNotNull(response) && response.headers.has("Retry-After")) {
+
+        const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+        // a service asking for a longer wait than the policy allows is not waited for beyond maxDelay
+        if (retryAfter !== null) {
+            return Math.min(retryAfter, policy.maxDelay);
+        }
+    }
+
+    let delay = policy.delay * Math.pow(policy.backoffFactor, attempt - 1);
+
+    if (policy.jitter > 0) {
+        delay += delay * policy.jitter * (Math.random() * 2 - 1);
+    }
+
+    return Math.round(Math.min(delay, policy.maxDelay));
+}
+
+/**
+ * Tracks the number of retries made before each response returned by fetchWithRetry was received
+ */
+const retryCounts = new WeakMap<Response, number>();
+
+/**
+ * Gets the number of times the request was retried before the supplied response was received
+ *
+ * @param response A response returned by fetchWithRetry
+ */
+export function getRetryCount(response: Response | null | undefined): number {
+    return objectDefinedNotNull(response) && retryCounts.has(response) ? retryCounts.get(response) : 0;
+}
+
+/**
+ * Waits for the supplied delay before a retry, rejecting with a CancellationError as soon as the signal is aborted
+ *
+ * @param delay The delay in milliseconds
+ * @param signal The signal of the request, if any
+ */
+function waitForRetry(delay: number, signal?: AbortSignal): Promise<void> {
+
+    return new Promise<void>((resolve, reject) => {
+
+        const canListen = objectDefinedNotNull(signal) && typeof signal.addEventListener === "function";
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new CancellationError());
+        };
+
+        const timer = setTimeout(() => {
+            if (canListen) {
+                signal.removeEventListener("abort", onAbort);
+            }
+            resolve();
+        }, delay);
+
+        if (canListen) {
+            signal.addEventListener("abort", onAbort);
+        }
+    });
+}
+
+/**
+ * Sends a request, retrying it as defined by the supplied policy
+ *
+ * @param url The url to request
+ * @param options The options used for each attempt, aborting the signal cancels the request, including while waiting to retry
+ * @param send The method used to send each attempt
+ * @param policy The retry policy, any missing values use the defaults
+ */
+export function fetchWithRetry(
+    url: string,
+    options: FetchOptions,
+    send: (url: string, options: FetchOptions) => Promise<Response>,
+    policy: RetryPolicy = {}): Promise<Response> {
+
+    const p = resolveRetryPolicy(policy);
+
+    return new Promise((resolve, reject) => {
+
+        const attempt = (count: number): void => {
+
+            // stop retrying once the request has been cancelled
+            if (isAborted(options.signal)) {
+                reject(new CancellationError());
+                return;
+            }
+
+            // schedules the next attempt, or returns false if we have run out of attempts
+            const retry = (response?: Response, error?: any): boolean => {
+
+                if (count >= p.maxAttempts) {
+                    return false;
+                }
+
+                const delay = getRetryDelay(p, count, response);
+
+                if (typeof p.onRetry === "function") {
+                    p.onRetry({ attempt: count, delay, error, response, url });
+                }
+
+                waitForRetry(delay, options.signal).then(() => attempt(count + 1), reject);
+                return true;
+            };
+
+            send(url, options).then(response => {
+
+                if (!p.retryOnStatus(response.status)) {
+                    retryCounts.set(response, count - 1);
+                    resolve(response);
+                } else if (!retry(response)) {
+                    reject(Error(`Retry count exceeded (${p.maxAttempts}) for request. Response status: [${response.status}] ${response.statusText}`));
+                }
+
+            }).catch(e => {
+
+                if (isAborted(options.signal)) {
+                    reject(new CancellationError());
+                } else if (!p.retryOnError(e) || !retry(undefined, e)) {
+                    reject(e);
+                }
+            });
+        };
+
+        attempt(1);
+    });
+}
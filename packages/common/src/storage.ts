@@ -116,16 +116,13 @@ export class PnPClientStorageWrapper implements PnPClientStore {
 
             try {
 
-                for (let i = 0; i < this.store.length; i++) {
-                    const key = this.store.key(i);
-                    if (key !== null) {
-                        // test the stored item to see if we stored it
-                        if (/["|']?pnp["|']? ?: ?1/i.test(<string>this.store.getItem(key))) {
-                            // get those items as get will delete from cache if they are expired
-                            this.get(key);
-                        }
+                this.keys().forEach(key => {
+                    // test the stored item to see if we stored it
+                    if (/["|']?pnp["|']? ?: ?1/i.test(<string>this.store.getItem(key))) {
+                        // get those items as get will delete from cache if they are expired
+                        this.get(key);
                     }
-                }
+                });
 
                 resolve();
 
@@ -133,6 +130,39 @@ export class PnPClientStorageWrapper implements PnPClientStore {
         });
     }
 
+    /**
+     * Deletes the items placed in the store by the pnp library whose keys match the supplied predicate, leaves other items untouched
+     *
+     * @param predicate Function returning true for the keys to delete
+     */
+    public deleteMatching(predicate: (key: string) => boolean): void {
+
+        if (!this.enabled) {
+            return;
+        }
+
+        this.keys()
+            .filter(key => predicate(key) && /["|']?pnp["|']? ?: ?1/i.test(<string>this.store.getItem(key)))
+            .forEach(key => this.store.removeItem(key));
+    }
+
+    /**
+     * Gets the keys currently in the wrapped storage, collected up front as removing or reading items may change their indexes
+     */
+    private keys(): string[] {
+
+        const keys: string[] = [];
+
+        for (let i = 0; i < this.store.length; i++) {
+            const key = this.store.key(i);
+            if (key !== null) {
+                keys.push(key);
+            }
+        }
+
+        return keys;
+    }
+
     /**
      * Used to determine if the wrapped storage is available currently
      */
@@ -223,6 +253,13 @@ export interface PnPClientStore {
      * Removes any expired items placed in the store by the pnp library, leaves other items untouched
      */
     deleteExpired(): Promise<void>;
+
+    /**
+     * Optional, removes the items placed in the store by the pnp library whose keys match the supplied predicate
+     *
+     * @param predicate Function returning true for the keys to delete
+     */
+    deleteMatching?(predicate: (key: string) => boolean): void;
 }
 
 /**
@@ -260,6 +297,184 @@ class MemoryStorage {
     [index: number]: string;
 }
 
+/**
+ * An in-memory storage implementation which evicts the least recently used entries once the configured limits are reached
+ */
+export class LRUStorage {
+
+    private _store = new Map<string, string>();
+    private _size = 0;
+
+    /**
+     * Creates a new instance of the LRUStorage class
+     *
+     * @param maxEntries The maximum number of entries held, the least recently used entries are evicted first (default: 500)
+     * @param maxSize Optional, the maximum combined length of the stored values in characters (default: -1, unlimited)
+     */
+    constructor(public maxEntries = 500, public maxSize = -1) { }
+
+    public get length(): number {
+        return this._store.size;
+    }
+
+    public clear(): void {
+        this._store.clear();
+        this._size = 0;
+    }
+
+    public getItem(key: string): any {
+
+        if (!this._store.has(key)) {
+            return null;
+        }
+
+        // re-insert the value so it becomes the most recently used entry
+        const value = this._store.get(key)!;
+        this._store.delete(key);
+        this._store.set(key, value);
+        return value;
+    }
+
+    public key(index: number): string {
+        return Array.from(this._store.keys())[index];
+    }
+
+    public removeItem(key: string): void {
+        if (this._store.has(key)) {
+            this._size -= this._store.get(key)!.length;
+            this._store.delete(key);
+        }
+    }
+
+    public setItem(key: string, data: string): void {
+
+        this.removeItem(key);
+
+        // a value that can never fit is not stored at all
+        if (this.maxSize > 0 && data.length > this.maxSize) {
+            return;
+        }
+
+        this._store.set(key, data);
+        this._size += data.length;
+
+        const keys = this._store.keys();
+        while (this._store.size > this.maxEntries || (this.maxSize > 0 && this._size > this.maxSize)) {
+            this.removeItem(keys.next().value);
+        }
+    }
+
+    [key: string]: any;
+    [index: number]: string;
+}
+
+/**
+ * Storage backed by the browser's IndexedDB. Values are held in memory and written through to the database, previously
+ * persisted values are available once the loaded promise resolves
+ */
+export class IndexedDBStorage {
+
+    /**
+     * Resolves once any values persisted in a previous session have been loaded
+     */
+    public loaded: Promise<void>;
+
+    private _store = new Map<string, string>();
+    private _db: Promise<IDBDatabase | null>;
+
+    /**
+     * Creates a new instance of the IndexedDBStorage class
+     *
+     * @param dbName The name of the database to use (default: pnpjs)
+     * @param objectStoreName The name of the object store within the database (default: cache)
+     */
+    constructor(public dbName = "pnpjs", public objectStoreName = "cache") {
+        this._db = this.open();
+        this.loaded = this._db.then(db => this.load(db));
+    }
+
+    public get length(): number {
+        return this._store.size;
+    }
+
+    public clear(): void {
+        this._store.clear();
+        this.write(s => s.clear());
+    }
+
+    public getItem(key: string): any {
+        return this._store.has(key) ? this._store.get(key) : null;
+    }
+
+    public key(index: number): string {
+        return Array.from(this._store.keys())[index];
+    }
+
+    public removeItem(key: string): void {
+        this._store.delete(key);
+        this.write(s => s.delete(key));
+    }
+
+    public setItem(key: string, data: string): void {
+        this._store.set(key, data);
+        this.write(s => s.put(data, key));
+    }
+
+    private open(): Promise<IDBDatabase | null> {
+
+        return new Promise<IDBDatabase | null>(resolve => {
+
+            if (typeof (indexedDB) === "undefined") {
+                return resolve(null);
+            }
+
+            const request = indexedDB.open(this.dbName);
+            request.onupgradeneeded = () => request.result.createObjectStore(this.objectStoreName);
+            request.onsuccess = () => resolve(request.result);
+            // if the database can't be opened we continue as a non-persistent in memory store
+            request.onerror = () => resolve(null);
+        });
+    }
+
+    private load(db: IDBDatabase | null): Promise<void> {
+
+        return new Promise<void>(resolve => {
+
+            if (db === null) {
+                return resolve();
+            }
+
+            const request = db.transaction(this.objectStoreName, "readonly").objectStore(this.objectStoreName).openCursor();
+
+            request.onsuccess = () => {
+                const cursor: IDBCursorWithValue = request.result;
+                if (cursor) {
+                    // values written since we started loading are newer than the persisted ones
+                    if (!this._store.has(<string>cursor.key)) {
+                        this._store.set(<string>cursor.key, cursor.value);
+                    }
+                    cursor.continue();
+                } else {
+                    resolve();
+                }
+            };
+
+            request.onerror = () => resolve();
+        });
+    }
+
+    private write(action: (s: IDBObjectStore) => void): void {
+        this._db.then(db => {
+            if (db !== null) {
+                action(db.transaction(this.objectStoreName, "readwrite").objectStore(this.objectStoreName));
+            }
+        });
+    }
+
+    [key: string]: any;
+    [index: number]: string;
+}
+
 /**
  * A class that will establish wrappers for both local and session storage
  */
@@ -305,3 +520,73 @@ export class PnPClientStorage {
         return new PnPClientStorageWrapper(typeof (sessionStorage) === "undefined" ? new MemoryStorage() : sessionStorage);
     }
 }
+
+// the shared instance used to resolve the built-in "local" and "session" stores
+const clientStorage = new PnPClientStorage();
+
+// the factories and created instances of any stores registered by name
+const storeFactories = new Map<string, () => PnPClientStore>();
+const storeInstances = new Map<string, PnPClientStore>();
+
+/**
+ * Registers a named store which can then be selected by name, for example in usingCaching or as the defaultCachingStore.
+ * Registering the names "local" or "session" replaces the built-in stores
+ *
+ * @param name The name used to select the store
+ * @param factory Function creating the store, called once the first time the store is requested
+ */
+export function registerClientStore(name: string, factory: () => PnPClientStore): void {
+    storeFactories.set(name, factory);
+    storeInstances.delete(name);
+}
+
+/**
+ * Removes a previously registered named store
+ *
+ * @param name The name of the store to remove
+ */
+export function unregisterClientStore(name: string): void {
+    storeFactories.delete(name);
+    storeInstances.delete(name);
+}
+
+/**
+ * Gets the store registered with the supplied name, or null if no such store exists
+ *
+ * @param name The name of the store ("local", "session" or any registered name)
+ */
+export function getClientStore(name: string): PnPClientStore | null {
+
+    if (storeFactories.has(name)) {
+
+        if (!storeInstances.has(name)) {
+            storeInstances.set(name, storeFactories.get(name)!());
+        }
+
+        return storeInstances.get(name)!;
+    }
+
+    switch (name) {
+        case "local":
+            return clientStorage.local;
+        case "session":
+            return clientStorage.session;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Gets all of the available stores, the built-in "local" and "session" stores and any registered stores
+ */
+export function getClientStores(): PnPClientStore[] {
+
+    const names = ["local", "session"];
+    storeFactories.forEach((_, name) => {
+        if (names.indexOf(name) < 0) {
+            names.push(name);
+        }
+    });
+
+    return names.map(name => getClientStore(name)!);
+}
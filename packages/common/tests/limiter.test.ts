@@ -0,0 +1,82 @@
+import { expect } from "chai";
+import { RequestLimiter } from "../";
+
+describe("RequestLimiter", () => {
+
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    it("Should limit the number of tasks running at once", () => {
+
+        const limiter = new RequestLimiter({ maxConcurrency: 2 });
+        let running = 0;
+        let peak = 0;
+
+        const task = () => {
+            running++;
+            peak = Math.max(peak, running);
+            return delay(5).then(() => running--);
+        };
+
+        const tasks = [1, 2, 3, 4, 5].map(() => limiter.schedule(task));
+
+        expect(limiter.metrics.active).to.eq(2);
+        expect(limiter.metrics.queued).to.eq(3);
+
+        return Promise.all(tasks).then(() => {
+            expect(peak).to.eq(2);
+            expect(limiter.metrics).to.deep.eq({ active: 0, completed: 5, peakQueued: 3, queued: 0 });
+        });
+    });
+
+    it("Should resolve and reject with the result of each task", () => {
+
+        const limiter = new RequestLimiter({ maxConcurrency: 1 });
+
+        return Promise.all([
+            expect(limiter.schedule(() => Promise.resolve(1))).to.eventually.eq(1),
+            expect(limiter.schedule(() => Promise.reject(Error("failed")))).to.be.rejectedWith("failed"),
+            expect(limiter.schedule(() => Promise.resolve(3))).to.eventually.eq(3),
+        ]);
+    });
+
+    it("Should limit the rate at which tasks are started", () => {
+
+        const limiter = new RequestLimiter({ tokensPerSecond: 100, burst: 1 });
+        const start = Date.now();
+
+        return Promise.all([1, 2, 3].map(() => limiter.schedule(() => Promise.resolve()))).then(() => {
+            expect(Date.now() - start).to.be.at.least(15);
+        });
+    });
+
+    it("Should reject queued tasks whose signal is aborted", () => {
+
+        const limiter = new RequestLimiter({ maxConcurrency: 1 });
+        const signal: AbortSignal = <any>{ aborted: false };
+
+        const first = limiter.schedule(() => delay(5));
+        const second = limiter.schedule(() => Promise.resolve(), signal);
+        (<any>signal).aborted = true;
+
+        return Promise.all([
+            first,
+            expect(second).to.be.rejectedWith("cancelled"),
+        ]);
+    });
+
+    it("Should remove the abort listener of each task once it leaves the queue", () => {
+
+        const limiter = new RequestLimiter({ maxConcurrency: 1 });
+        const listeners: any[] = [];
+        const signal: AbortSignal = <any>{
+            aborted: false,
+            addEventListener: (_: string, l: any) => listeners.push(l),
+            removeEventListener: (_: string, l: any) => listeners.splice(listeners.indexOf(l), 1),
+        };
+
+        const tasks = [1, 2, 3].map(() => limiter.schedule(() => delay(1), signal));
+        expect(listeners.length).to.eq(2);
+
+        return Promise.all(tasks).then(() => expect(listeners.length).to.eq(0));
+    });
+});
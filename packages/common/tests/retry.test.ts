@@ -0,0 +1,139 @@
+const nodeFetch = require("node-fetch");
+import { expect } from "chai";
+import { fetchWithRetry, getRetryDelay, parseRetryAfter, resolveRetryPolicy, RetryInfo } from "../";
+
+describe("parseRetryAfter", () => {
+
+    it("Should read a number of seconds", () => {
+        expect(parseRetryAfter("3")).to.eq(3000);
+    });
+
+    it("Should read an http date", () => {
+        const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+        expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:10 GMT", now)).to.eq(10000);
+    });
+
+    it("Should return null for an invalid value", () => {
+        expect(parseRetryAfter("soon")).to.be.null;
+        expect(parseRetryAfter(null)).to.be.null;
+    });
+});
+
+describe("getRetryDelay", () => {
+
+    it("Should apply backoff and the max delay cap", () => {
+        const policy = resolveRetryPolicy({ delay: 100, maxDelay: 250 });
+        expect(getRetryDelay(policy, 1)).to.eq(100);
+        expect(getRetryDelay(policy, 2)).to.eq(200);
+        expect(getRetryDelay(policy, 3)).to.eq(250);
+    });
+
+    it("Should keep jittered delays within bounds", () => {
+        const policy = resolveRetryPolicy({ delay: 100, jitter: 0.5 });
+        for (let i = 0; i < 20; i++) {
+            const delay = getRetryDelay(policy, 1);
+            expect(delay).to.be.within(50, 150);
+        }
+    });
+
+    it("Should use the Retry-After header", () => {
+        const response = new nodeFetch.Response("", { headers: { "Retry-After": "2" }, status: 429 });
+        expect(getRetryDelay(resolveRetryPolicy(), 1, response)).to.eq(2000);
+        expect(getRetryDelay(resolveRetryPolicy({ respectRetryAfter: false }), 1, response)).to.eq(100);
+    });
+
+    it("Should limit the Retry-After delay to the max delay", () => {
+        const response = new nodeFetch.Response("", { headers: { "Retry-After": "600" }, status: 429 });
+        expect(getRetryDelay(resolveRetryPolicy(), 1, response)).to.eq(30000);
+        expect(getRetryDelay(resolveRetryPolicy({ maxDelay: 5000 }), 1, response)).to.eq(5000);
+    });
+});
+
+describe("fetchWithRetry", () => {
+
+    let count = 0;
+
+    const respond = (status: number) => {
+        count++;
+        return Promise.resolve(new nodeFetch.Response("{}", { status }));
+    };
+
+    beforeEach(() => {
+        count = 0;
+    });
+
+    it("Should retry throttled responses until successful", () => {
+
+        const statuses = [429, 503, 200];
+        const retries: RetryInfo[] = [];
+
+        return fetchWithRetry("https://test", {}, () => respond(statuses.shift()), {
+            delay: 1,
+            onRetry: info => retries.push(info),
+        }).then(response => {
+            expect(response.status).to.eq(200);
+            expect(retries.map(r => r.attempt)).to.deep.eq([1, 2]);
+            expect(retries[0].response.status).to.eq(429);
+        });
+    });
+
+    it("Should reject with a CancellationError when aborted while waiting to retry", () => {
+
+        const listeners: any[] = [];
+        const signal: AbortSignal = <any>{
+            aborted: false,
+            addEventListener: (_: string, l: any) => listeners.push(l),
+            removeEventListener: (_: string, l: any) => listeners.splice(listeners.indexOf(l), 1),
+        };
+        const started = Date.now();
+
+        const request = fetchWithRetry("https://test", { signal }, () => respond(429), { delay: 60000 });
+
+        // abort once the first attempt has failed and the wait for the retry has started
+        setTimeout(() => {
+            (<any>signal).aborted = true;
+            listeners.slice().forEach(l => l());
+        }, 10);
+
+        return request.then(() => {
+            throw Error("Request should have been cancelled");
+        }, e => {
+            expect(e.isCancellationError).to.be.true;
+            expect(count).to.eq(1);
+            expect(Date.now() - started).to.be.below(1000);
+        });
+    });
+
+    it("Should reject once the maximum attempts are used", () => {
+
+        return fetchWithRetry("https://test", {}, () => respond(429), { delay: 1, maxAttempts: 3 }).then(() => {
+            throw Error("Request should have failed");
+        }, e => {
+            expect(count).to.eq(3);
+            expect(e.message).to.contain("Retry count exceeded (3)");
+        });
+    });
+
+    it("Should only retry errors matching the predicate", () => {
+
+        const send = () => {
+            count++;
+            return Promise.reject({ code: count < 3 ? "ECONNRESET" : "EFATAL" });
+        };
+
+        return fetchWithRetry("https://test", {}, send, { delay: 1 }).then(() => {
+            throw Error("Request should have failed");
+        }, e => {
+            expect(count).to.eq(3);
+            expect(e.code).to.eq("EFATAL");
+        });
+    });
+
+    it("Should not retry statuses excluded by the predicate", () => {
+
+        return fetchWithRetry("https://test", {}, () => respond(503), { delay: 1, retryOnStatus: s => s === 429 }).then(response => {
+            expect(count).to.eq(1);
+            expect(response.status).to.eq(503);
+        });
+    });
+});
@@ -1,5 +1,11 @@
 import { expect } from "chai";
-import { PnPClientStorageWrapper} from "../";
+import {
+    PnPClientStorageWrapper,
+    LRUStorage,
+    registerClientStore,
+    unregisterClientStore,
+    getClientStore,
+} from "../";
 import MockStorage  from "./mock-storage";
 
 describe("Storage", () => {
@@ -27,6 +33,16 @@ describe("Storage", () => {
             expect(ret).to.eq("value2");
         });
 
+        it("Delete only the values whose keys match", () => {
+            wrapper.put("match1", "value1");
+            wrapper.put("match2", "value2");
+            wrapper.put("other", "value3");
+            wrapper.deleteMatching(key => key.indexOf("match") === 0);
+            expect(wrapper.get("match1")).to.be.null;
+            expect(wrapper.get("match2")).to.be.null;
+            expect(wrapper.get("other")).to.eq("value3");
+        });
+
         it("Use getOrPut to add a value using a getter function and return it", () => {
             wrapper.getOrPut("test", () => { return new Promise(() => "value"); }).then(() => {
                 const ret = wrapper.get("test");
@@ -34,4 +50,63 @@ describe("Storage", () => {
             });
         });
     });
+
+    describe("LRUStorage", () => {
+
+        it("Evicts the least recently used entry when full", () => {
+            const store = new LRUStorage(2);
+            store.setItem("a", "1");
+            store.setItem("b", "2");
+            store.getItem("a");
+            store.setItem("c", "3");
+            expect(store.length).to.eq(2);
+            expect(store.getItem("a")).to.eq("1");
+            expect(store.getItem("b")).to.be.null;
+            expect(store.getItem("c")).to.eq("3");
+        });
+
+        it("Evicts entries to stay within the max size", () => {
+            const store = new LRUStorage(10, 5);
+            store.setItem("a", "123");
+            store.setItem("b", "45");
+            store.setItem("c", "6");
+            expect(store.getItem("a")).to.be.null;
+            expect(store.getItem("b")).to.eq("45");
+            expect(store.getItem("c")).to.eq("6");
+        });
+
+        it("Works when wrapped by PnPClientStorageWrapper", () => {
+            const wrapper = new PnPClientStorageWrapper(new LRUStorage(5));
+            wrapper.put("test", "value");
+            expect(wrapper.enabled).to.be.true;
+            expect(wrapper.get("test")).to.eq("value");
+        });
+    });
+
+    describe("Client store registry", () => {
+
+        afterEach(() => {
+            unregisterClientStore("test-lru");
+        });
+
+        it("Resolves the built-in local and session stores", () => {
+            expect(getClientStore("local")).to.not.be.null;
+            expect(getClientStore("session")).to.not.be.null;
+        });
+
+        it("Returns null for a name which is not registered", () => {
+            expect(getClientStore("test-lru")).to.be.null;
+        });
+
+        it("Creates a registered store once and returns the same instance", () => {
+            let calls = 0;
+            registerClientStore("test-lru", () => {
+                calls++;
+                return new PnPClientStorageWrapper(new LRUStorage());
+            });
+            const store = getClientStore("test-lru");
+            expect(getClientStore("test-lru")).to.eq(store);
+            expect(calls).to.eq(1);
+        });
+    });
 });
@@ -1,2 +1,3 @@
 export * from "./configuration";
+export * from "./schema";
 export * from "./providers/index";
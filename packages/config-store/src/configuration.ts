@@ -1,4 +1,5 @@
-import { TypedHash, mergeMaps, objectToMap, jsS } from "@pnp/common";
+import { TypedHash, objectToMap, jsS } from "@pnp/common";
+import { SettingsSchema, TypedSettings } from "./schema";
 
 /**
  * Interface for configuration providers
@@ -12,18 +13,78 @@ export interface IConfigurationProvider {
     getConfiguration(): Promise<TypedHash<string>>;
 }
 
+/**
+ * Interface for configuration providers which can persist values back to their source
+ *
+ */
+export interface IWritableConfigurationProvider extends IConfigurationProvider {
+
+    /**
+     * Saves the supplied values, adding or overwriting each key and leaving other keys unchanged
+     *
+     * @param values The values to save
+     */
+    saveConfiguration(values: TypedHash<string>): Promise<void>;
+
+    /**
+     * Saves a single value, adding or overwriting the key
+     *
+     * @param key The key of the value
+     * @param value The value to save
+     */
+    setValue(key: string, value: string): Promise<void>;
+}
+
+/**
+ * Determines if the supplied provider can persist values, a provider wrapping another, such as CachingConfigurationProvider, can if the wrapped provider can
+ *
+ * @param provider The provider to check
+ */
+export function isWritableConfigurationProvider(provider: IConfigurationProvider): provider is IWritableConfigurationProvider {
+
+    if (typeof (<any>provider).getWrappedProvider === "function") {
+        return isWritableConfigurationProvider((<any>provider).getWrappedProvider());
+    }
+
+    return typeof (<any>provider).saveConfiguration === "function" && typeof (<any>provider).setValue === "function";
+}
+
+/**
+ * Describes a change to a single setting
+ *
+ */
+export interface SettingChange {
+    /**
+     * The key of the setting which changed
+     */
+    key: string;
+    /**
+     * The value before the change, null if the setting was not set
+     */
+    oldValue: string | null;
+    /**
+     * The value after the change
+     */
+    newValue: string | null;
+}
+
 /**
  * Class used to manage the current application settings
  *
  */
 export class Settings {
 
+    private _providers: IConfigurationProvider[];
+    private _listeners: ((changes: SettingChange[]) => void)[];
+
     /**
      * Creates a new instance of the settings class
      *
      * @constructor
      */
     constructor(private _settings = new Map<string, string>()) {
+        this._providers = [];
+        this._listeners = [];
     }
 
     /**
@@ -33,7 +94,7 @@ export class Settings {
      * @param {string} value The setting value to store
      */
     public add(key: string, value: string) {
-        this._settings.set(key, value);
+        this.update(new Map([[key, value]]));
     }
 
     /**
@@ -43,7 +104,7 @@ export class Settings {
      * @param {any} value The setting value to store
      */
     public addJSON(key: string, value: any) {
-        this._settings.set(key, jsS(value));
+        this.update(new Map([[key, jsS(value)]]));
     }
 
     /**
@@ -54,7 +115,7 @@ export class Settings {
     public apply(hash: TypedHash<any>): Promise<void> {
         return new Promise<void>((resolve, reject) => {
             try {
-                this._settings = mergeMaps(this._settings, objectToMap(hash));
+                this.update(objectToMap(hash));
                 resolve();
             } catch (e) {
                 reject(e);
@@ -70,12 +131,76 @@ export class Settings {
     public load(provider: IConfigurationProvider): Promise<void> {
         return new Promise<void>((resolve, reject) => {
             provider.getConfiguration().then((value) => {
-                this._settings = mergeMaps(this._settings, objectToMap(value));
+                if (this._providers.indexOf(provider) < 0) {
+                    this._providers.push(provider);
+                }
+                this.update(objectToMap(value));
                 resolve();
             }).catch(reject);
         });
     }
 
+    /**
+     * Saves values from the collection to the supplied provider
+     *
+     * @param {IWritableConfigurationProvider} provider The provider to which the values are saved
+     * @param {string[]} keys The keys of the values to save (optional, default: all keys)
+     */
+    public save(provider: IWritableConfigurationProvider, keys?: string[]): Promise<void> {
+
+        const values: TypedHash<string> = {};
+
+        (keys || Array.from(this._settings.keys())).forEach(key => {
+            if (this._settings.has(key)) {
+                values[key] = this._settings.get(key);
+            }
+        });
+
+        return provider.saveConfiguration(values);
+    }
+
+    /**
+     * Loads the values from each provider previously loaded, in the order they were first loaded, notifying subscribers of any changes.
+     * Providers which cache their values, such as CachingConfigurationProvider, have their cache invalidated first
+     */
+    public reload(): Promise<void> {
+        return this._providers.reduce((chain, provider) => chain.then(() => {
+
+            if (typeof (<any>provider).invalidate === "function") {
+                (<any>provider).invalidate();
+            }
+
+            return this.load(provider);
+
+        }), Promise.resolve());
+    }
+
+    /**
+     * Subscribes to changes in the settings' values, made by loading, reloading or adding values
+     *
+     * @param {(changes: SettingChange[]) => void} listener Called with the settings which changed
+     * @return {() => void} Function which removes the subscription
+     */
+    public subscribe(listener: (changes: SettingChange[]) => void): () => void {
+        this._listeners.push(listener);
+        return () => {
+            const index = this._listeners.indexOf(listener);
+            if (index > -1) {
+                this._listeners.splice(index, 1);
+            }
+        };
+    }
+
+    /**
+     * Gets strongly typed access to the settings described by the supplied schema
+     *
+     * @param {SettingsSchema<T>} schema The type, default, required flag and validator of each setting
+     * @return {TypedSettings<T>} Accessor converting and validating the current values
+     */
+    public typed<T>(schema: SettingsSchema<T>): TypedSettings<T> {
+        return new TypedSettings<T>(this, schema);
+    }
+
     /**
      * Gets a value from the configuration
      *
@@ -100,4 +225,26 @@ export class Settings {
 
         return JSON.parse(o);
     }
+
+    /**
+     * Writes the supplied values to the collection, notifying subscribers of any values which changed
+     *
+     * @param {Map<string, string>} values The values to write
+     */
+    private update(values: Map<string, string>): void {
+
+        const changes: SettingChange[] = [];
+
+        values.forEach((value, key) => {
+            const oldValue = this._settings.has(key) ? this._settings.get(key) : null;
+            if (oldValue !== value) {
+                changes.push({ key, newValue: value, oldValue });
+            }
+            this._settings.set(key, value);
+        });
+
+        if (changes.length > 0) {
+            this._listeners.slice(0).forEach(listener => listener(changes));
+        }
+    }
 }
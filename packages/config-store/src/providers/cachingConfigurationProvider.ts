@@ -1,11 +1,11 @@
-import { IConfigurationProvider } from "../configuration";
+import { IConfigurationProvider, IWritableConfigurationProvider, isWritableConfigurationProvider } from "../configuration";
 import { TypedHash, PnPClientStore, PnPClientStorage } from "@pnp/common";
 
 /**
  * A caching provider which can wrap other non-caching providers
  *
  */
-export default class CachingConfigurationProvider implements IConfigurationProvider {
+export default class CachingConfigurationProvider implements IWritableConfigurationProvider {
 
     private store: PnPClientStore;
 
@@ -49,6 +49,45 @@ export default class CachingConfigurationProvider implements IConfigurationProvi
         });
     }
 
+    /**
+     * Saves the values through the wrapped provider and removes the cached configuration
+     *
+     * @param {TypedHash<string>} values The values to save
+     * @return {Promise<void>} Promise resolved once the values are saved, rejected if the wrapped provider cannot save values
+     */
+    public saveConfiguration(values: TypedHash<string>): Promise<void> {
+        return this.write(p => p.saveConfiguration(values));
+    }
+
+    /**
+     * Saves a single value through the wrapped provider and removes the cached configuration
+     *
+     * @param {string} key The key of the value
+     * @param {string} value The value to save
+     * @return {Promise<void>} Promise resolved once the value is saved, rejected if the wrapped provider cannot save values
+     */
+    public setValue(key: string, value: string): Promise<void> {
+        return this.write(p => p.setValue(key, value));
+    }
+
+    /**
+     * Removes the cached configuration so the next load reads from the wrapped provider
+     */
+    public invalidate(): void {
+        if (this.store) {
+            this.store.delete(this.cacheKey);
+        }
+    }
+
+    private write(action: (provider: IWritableConfigurationProvider) => Promise<void>): Promise<void> {
+
+        if (!isWritableConfigurationProvider(this.wrappedProvider)) {
+            return Promise.reject(Error("The wrapped configuration provider cannot save configuration values."));
+        }
+
+        return action(this.wrappedProvider).then(() => this.invalidate());
+    }
+
     private selectPnPCache(): PnPClientStore {
         const pnpCache = new PnPClientStorage();
         if ((pnpCache.local) && (pnpCache.local.enabled)) {
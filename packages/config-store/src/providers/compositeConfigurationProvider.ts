@@ -0,0 +1,43 @@
+import { IConfigurationProvider } from "../configuration";
+import { TypedHash } from "@pnp/common";
+
+/**
+ * A configuration provider which combines the values of several providers, later providers taking precedence
+ *
+ */
+export default class CompositeConfigurationProvider implements IConfigurationProvider {
+
+    private providers: IConfigurationProvider[];
+
+    /**
+     * Creates a new composite configuration provider
+     * @constructor
+     * @param {IConfigurationProvider[]} providers The providers to combine, values from later providers overwrite those from earlier providers
+     */
+    constructor(...providers: IConfigurationProvider[]) {
+        this.providers = providers;
+    }
+
+    /**
+     * Gets the combined providers, lowest precedence first
+     *
+     * @return {IConfigurationProvider[]} The combined providers
+     */
+    public getProviders(): IConfigurationProvider[] {
+        return this.providers.slice(0);
+    }
+
+    /**
+     * Loads the configuration values from all of the providers in parallel and combines them
+     *
+     * @return {Promise<TypedHash<string>>} Promise of combined configuration values
+     */
+    public getConfiguration(): Promise<TypedHash<string>> {
+
+        return Promise.all(this.providers.map(p => p.getConfiguration())).then(configs => configs.reduce((c: TypedHash<string>, config) => {
+
+            Object.keys(config || {}).forEach(key => c[key] = config[key]);
+            return c;
+        }, {}));
+    }
+}
@@ -0,0 +1,37 @@
+import { IConfigurationProvider } from "../configuration";
+import { TypedHash, stringIsNullOrEmpty } from "@pnp/common";
+
+declare var process: any;
+
+/**
+ * A configuration provider which loads configuration values from environment variables in node
+ *
+ */
+export default class EnvironmentConfigurationProvider implements IConfigurationProvider {
+    /**
+     * Creates a new environment variable based configuration provider
+     * @constructor
+     * @param {string} prefix Only variables whose names start with this prefix are loaded, with the prefix removed from the key (optional, default: "")
+     * @param {TypedHash<string>} env The variables to read (optional, default: process.env)
+     */
+    constructor(public readonly prefix = "", private env?: TypedHash<string>) { }
+
+    /**
+     * Loads the configuration values from the environment
+     *
+     * @return {Promise<TypedHash<string>>} Promise of loaded configuration values
+     */
+    public getConfiguration(): Promise<TypedHash<string>> {
+
+        const env: TypedHash<string> = this.env || (typeof process !== "undefined" && process.env ? process.env : {});
+
+        return Promise.resolve(Object.keys(env).reduce((c: TypedHash<string>, name: string) => {
+
+            if (stringIsNullOrEmpty(this.prefix) || name.indexOf(this.prefix) === 0) {
+                c[name.substr(this.prefix.length)] = env[name];
+            }
+
+            return c;
+        }, {}));
+    }
+}
@@ -2,6 +2,26 @@ export {
     default as CachingConfigurationProvider,
 } from "./cachingConfigurationProvider";
 
+export {
+    default as CompositeConfigurationProvider,
+} from "./compositeConfigurationProvider";
+
+export {
+    default as EnvironmentConfigurationProvider,
+} from "./environmentConfigurationProvider";
+
+export {
+    default as SPJsonFileConfigurationProvider,
+} from "./spJsonFileConfigurationProvider";
+
 export {
     default as SPListConfigurationProvider,
 } from "./spListConfigurationProvider";
+
+export {
+    default as SPStorageEntityConfigurationProvider,
+} from "./spStorageEntityConfigurationProvider";
+
+export {
+    default as SPWebPropertiesConfigurationProvider,
+} from "./spWebPropertiesConfigurationProvider";
@@ -0,0 +1,47 @@
+import { IConfigurationProvider } from "../configuration";
+import { TypedHash, jsS } from "@pnp/common";
+import { default as CachingConfigurationProvider } from "./cachingConfigurationProvider";
+import { Web } from "@pnp/sp";
+
+/**
+ * A configuration provider which loads configuration values from a JSON document stored in SharePoint
+ *
+ */
+export default class SPJsonFileConfigurationProvider implements IConfigurationProvider {
+    /**
+     * Creates a new SharePoint JSON file based configuration provider
+     * @constructor
+     * @param {Web} web The web containing the file
+     * @param {string} serverRelativeUrl Server relative url of the JSON file, such as "/sites/dev/config/settings.json"
+     */
+    constructor(public readonly web: Web, public readonly serverRelativeUrl: string) { }
+
+    /**
+     * Loads the configuration values from the file, any value which is not a string is stored as JSON and can be read using getJSON
+     *
+     * @return {Promise<TypedHash<string>>} Promise of loaded configuration values
+     */
+    public getConfiguration(): Promise<TypedHash<string>> {
+
+        return this.web.getFileByServerRelativeUrl(this.serverRelativeUrl).getJSON().then((data: TypedHash<any>) => {
+
+            if (data === null || typeof data !== "object" || Array.isArray(data)) {
+                throw Error(`Configuration file ${this.serverRelativeUrl} must contain a JSON object.`);
+            }
+
+            return Object.keys(data).reduce((c: TypedHash<string>, key: string) => {
+                c[key] = typeof data[key] === "string" ? data[key] : jsS(data[key]);
+                return c;
+            }, {});
+        });
+    }
+
+    /**
+     * Wraps the current provider in a cache enabled provider
+     *
+     * @return {CachingConfigurationProvider} Caching providers which wraps the current provider
+     */
+    public asCaching(cacheKey = `pnp_configcache_spjsonfile_${this.web.toUrl()}+${this.serverRelativeUrl}`): CachingConfigurationProvider {
+        return new CachingConfigurationProvider(this, cacheKey);
+    }
+}
@@ -1,5 +1,5 @@
-import { IConfigurationProvider } from "../configuration";
-import { TypedHash } from "@pnp/common";
+import { IWritableConfigurationProvider } from "../configuration";
+import { TypedHash, hOP } from "@pnp/common";
 import { default as CachingConfigurationProvider } from "./cachingConfigurationProvider";
 import { Web } from "@pnp/sp";
 
@@ -7,7 +7,10 @@ import { Web } from "@pnp/sp";
  * A configuration provider which loads configuration values from a SharePoint list
  *
  */
-export default class SPListConfigurationProvider implements IConfigurationProvider {
+export default class SPListConfigurationProvider implements IWritableConfigurationProvider {
+
+    private cachingProviders: TypedHash<CachingConfigurationProvider> = {};
+
     /**
      * Creates a new SharePoint list based configuration provider
      * @constructor
@@ -33,11 +36,73 @@ export default class SPListConfigurationProvider implements IConfigurationProvid
     }
 
     /**
-     * Wraps the current provider in a cache enabled provider
+     * Saves the values to the SharePoint list, updating the item for each existing key and adding items for new keys
+     *
+     * @param {TypedHash<string>} values The values to save
+     * @return {Promise<void>} Promise resolved once all values are saved
+     */
+    public saveConfiguration(values: TypedHash<string>): Promise<void> {
+
+        const keys = Object.keys(values);
+
+        if (keys.length < 1) {
+            return Promise.resolve();
+        }
+
+        const list = this.web.lists.getByTitle(this.listTitle);
+
+        return Promise.all([
+            // lists above the list view threshold can only be read one range of ids at a time
+            list.items.select("Id", this.keyFieldName).getAllByIdRange(),
+            list.getListItemEntityTypeFullName(),
+        ]).then(([items, entityType]) => {
+
+            const ids: TypedHash<number> = items.reduce((c: TypedHash<number>, item: any) => {
+                c[item[this.keyFieldName]] = item.Id;
+                return c;
+            }, {});
+
+            return Promise.all(keys.map(key => {
+
+                const properties: TypedHash<string> = {};
+                properties[this.valueFieldName] = values[key];
+
+                if (hOP(ids, key)) {
+                    return list.items.getById(ids[key]).update(properties, "*", entityType);
+                }
+
+                properties[this.keyFieldName] = key;
+                return list.items.add(properties, entityType);
+            }));
+
+        }).then(() => Object.keys(this.cachingProviders).forEach(k => this.cachingProviders[k].invalidate()));
+    }
+
+    /**
+     * Saves a single value to the SharePoint list, updating the item with the key or adding one if none exists
+     *
+     * @param {string} key The key of the value
+     * @param {string} value The value to save
+     * @return {Promise<void>} Promise resolved once the value is saved
+     */
+    public setValue(key: string, value: string): Promise<void> {
+        const values: TypedHash<string> = {};
+        values[key] = value;
+        return this.saveConfiguration(values);
+    }
+
+    /**
+     * Wraps the current provider in a cache enabled provider, the cache is cleared when values are saved through this provider.
+     * Each call with the same cache key returns the same caching provider
      *
      * @return {CachingConfigurationProvider} Caching providers which wraps the current provider
      */
     public asCaching(cacheKey = `pnp_configcache_splist_${this.web.toUrl()}+${this.listTitle}`): CachingConfigurationProvider {
-        return new CachingConfigurationProvider(this, cacheKey);
+
+        if (!hOP(this.cachingProviders, cacheKey)) {
+            this.cachingProviders[cacheKey] = new CachingConfigurationProvider(this, cacheKey);
+        }
+
+        return this.cachingProviders[cacheKey];
     }
 }
@@ -0,0 +1,44 @@
+import { IConfigurationProvider } from "../configuration";
+import { TypedHash, objectDefinedNotNull } from "@pnp/common";
+import { default as CachingConfigurationProvider } from "./cachingConfigurationProvider";
+import { Web } from "@pnp/sp";
+
+/**
+ * A configuration provider which loads configuration values from tenant storage entities
+ *
+ */
+export default class SPStorageEntityConfigurationProvider implements IConfigurationProvider {
+    /**
+     * Creates a new SharePoint storage entity based configuration provider
+     * @constructor
+     * @param {Web} web Any web in the tenant, storage entities are read through the tenant app catalog
+     * @param {string[]} keys The keys of the storage entities to load, entities which do not exist are skipped
+     */
+    constructor(public readonly web: Web, public readonly keys: string[]) { }
+
+    /**
+     * Loads the configuration values from the storage entities
+     *
+     * @return {Promise<TypedHash<string>>} Promise of loaded configuration values
+     */
+    public getConfiguration(): Promise<TypedHash<string>> {
+
+        return Promise.all(this.keys.map(key => this.web.getStorageEntity(key))).then(entities => entities.reduce((c: TypedHash<string>, entity, i) => {
+
+            if (objectDefinedNotNull(entity) && objectDefinedNotNull(entity.Value)) {
+                c[this.keys[i]] = entity.Value;
+            }
+
+            return c;
+        }, {}));
+    }
+
+    /**
+     * Wraps the current provider in a cache enabled provider
+     *
+     * @return {CachingConfigurationProvider} Caching providers which wraps the current provider
+     */
+    public asCaching(cacheKey = `pnp_configcache_spstorageentity_${this.web.toUrl()}+${this.keys.join(",")}`): CachingConfigurationProvider {
+        return new CachingConfigurationProvider(this, cacheKey);
+    }
+}
@@ -0,0 +1,61 @@
+import { IConfigurationProvider } from "../configuration";
+import { TypedHash, jsS, stringIsNullOrEmpty } from "@pnp/common";
+import { default as CachingConfigurationProvider } from "./cachingConfigurationProvider";
+import { Web } from "@pnp/sp";
+
+/**
+ * A configuration provider which loads configuration values from a web's property bag
+ *
+ */
+export default class SPWebPropertiesConfigurationProvider implements IConfigurationProvider {
+    /**
+     * Creates a new SharePoint web property bag based configuration provider
+     * @constructor
+     * @param {Web} web The web whose allProperties contain the configuration settings
+     * @param {string} prefix Only properties whose names start with this prefix are loaded, with the prefix removed from the key (optional, default: "")
+     */
+    constructor(public readonly web: Web, public readonly prefix = "") { }
+
+    /**
+     * Loads the configuration values from the web's property bag
+     *
+     * @return {Promise<TypedHash<string>>} Promise of loaded configuration values
+     */
+    public getConfiguration(): Promise<TypedHash<string>> {
+
+        return this.web.allProperties.get<TypedHash<any>>().then(data => Object.keys(data).reduce((c: TypedHash<string>, name: string) => {
+
+            // skip the odata metadata returned with the properties
+            if (/^odata\.|^__metadata$/i.test(name)) {
+                return c;
+            }
+
+            const key = this.decodeName(name);
+
+            if (stringIsNullOrEmpty(this.prefix) || key.indexOf(this.prefix) === 0) {
+                const value = data[name];
+                c[key.substr(this.prefix.length)] = typeof value === "string" ? value : jsS(value);
+            }
+
+            return c;
+        }, {}));
+    }
+
+    /**
+     * Wraps the current provider in a cache enabled provider
+     *
+     * @return {CachingConfigurationProvider} Caching providers which wraps the current provider
+     */
+    public asCaching(cacheKey = `pnp_configcache_spwebprops_${this.web.toUrl()}+${this.prefix}`): CachingConfigurationProvider {
+        return new CachingConfigurationProvider(this, cacheKey);
+    }
+
+    /**
+     * Converts a property name as returned by the REST api back to the name stored in the property bag
+     *
+     * @param name The encoded property name
+     */
+    private decodeName(name: string): string {
+        return name.replace(/^OData_/, "").replace(/_x([0-9a-f]{4})_/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)));
+    }
+}
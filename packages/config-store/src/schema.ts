@@ -0,0 +1,186 @@
+import { TypedHash, hOP } from "@pnp/common";
+import { Settings } from "./configuration";
+
+/**
+ * The types to which setting values can be converted
+ */
+export type SettingType = "string" | "number" | "boolean" | "json";
+
+/**
+ * Describes a single setting within a schema
+ */
+export interface SettingDefinition<T = any> {
+
+    /**
+     * The type to which the stored string value is converted
+     */
+    type: SettingType;
+
+    /**
+     * The value returned when the setting is not set
+     */
+    default?: T;
+
+    /**
+     * If true an error is thrown when the setting is not set and has no default, default: false
+     */
+    required?: boolean;
+
+    /**
+     * Checks the converted value, returning false or a message describing the problem if it is not valid
+     */
+    validator?: (value: T) => boolean | string;
+}
+
+/**
+ * Describes the settings read by a TypedSettings instance, keyed by setting key
+ */
+export type SettingsSchema<T> = {
+    [K in keyof T]: SettingDefinition<T[K]>;
+};
+
+/**
+ * Error thrown when a setting is missing or invalid
+ */
+export class SettingsError extends Error {
+
+    public isSettingsError = true;
+
+    constructor(message: string, public readonly keys: string[]) {
+        super(message);
+    }
+}
+
+/**
+ * Provides strongly typed access to settings described by a schema, reading the current values on each access
+ */
+export class TypedSettings<T> {
+
+    /**
+     * Creates a new instance of the TypedSettings class
+     *
+     * @param settings The settings from which values are read
+     * @param schema The schema describing the settings
+     */
+    constructor(private settings: Settings, public readonly schema: SettingsSchema<T>) { }
+
+    /**
+     * Gets a setting converted to the type given in the schema, throwing a SettingsError if it is missing or invalid
+     *
+     * @param key The key of the setting
+     */
+    public get<K extends keyof T>(key: K): T[K] {
+
+        const result = this.read(key);
+
+        if (result.error !== null) {
+            throw new SettingsError(result.error, [<string>key]);
+        }
+
+        return result.value;
+    }
+
+    /**
+     * Gets all of the settings in the schema, throwing a SettingsError describing every missing or invalid setting
+     */
+    public getAll(): T {
+
+        const values: TypedHash<any> = {};
+        const errors: string[] = [];
+        const keys: string[] = [];
+
+        Object.keys(this.schema).forEach(key => {
+
+            const result = this.read(<keyof T>key);
+
+            if (result.error !== null) {
+                errors.push(result.error);
+                keys.push(key);
+            } else {
+                values[key] = result.value;
+            }
+        });
+
+        if (errors.length > 0) {
+            throw new SettingsError(`Invalid settings: ${errors.join(" ")}`, keys);
+        }
+
+        return <T>values;
+    }
+
+    /**
+     * Checks all of the settings in the schema, throwing a SettingsError describing every missing or invalid setting
+     */
+    public validate(): void {
+        this.getAll();
+    }
+
+    /**
+     * Reads and converts a single setting, returning an error message in place of throwing
+     *
+     * @param key The key of the setting
+     */
+    private read<K extends keyof T>(key: K): { value?: T[K], error: string | null } {
+
+        if (!hOP(this.schema, <string>key)) {
+            return { error: `Setting "${key}" is not defined in the schema.` };
+        }
+
+        const definition = this.schema[key];
+        const raw = this.settings.get(<string>key);
+
+        if (raw === null) {
+
+            if (hOP(definition, "default")) {
+                return { error: null, value: definition.default };
+            }
+
+            return definition.required ? { error: `Setting "${key}" is required but has no value.` } : { error: null, value: null };
+        }
+
+        const text = String(raw).trim();
+        let value: any;
+
+        switch (definition.type) {
+
+            case "number":
+                value = parseFloat(text);
+                if (isNaN(value) || !/^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(text)) {
+                    return { error: `Setting "${key}" must be a number but was "${raw}".` };
+                }
+                break;
+
+            case "boolean":
+                if (/^(true|1|yes)$/i.test(text)) {
+                    value = true;
+                } else if (/^(false|0|no)$/i.test(text)) {
+                    value = false;
+                } else {
+                    return { error: `Setting "${key}" must be a boolean but was "${raw}".` };
+                }
+                break;
+
+            case "json":
+                try {
+                    value = typeof raw === "string" ? JSON.parse(raw) : raw;
+                } catch (e) {
+                    return { error: `Setting "${key}" must be valid JSON: ${e.message}` };
+                }
+                break;
+
+            default:
+                value = String(raw);
+        }
+
+        if (typeof definition.validator === "function") {
+
+            const valid = definition.validator(value);
+
+            if (valid === false || typeof valid === "string") {
+                return { error: `Setting "${key}" is not valid${typeof valid === "string" ? `: ${valid}` : "."}` };
+            }
+        }
+
+        return { error: null, value };
+    }
+}
@@ -0,0 +1,36 @@
+const nodeFetch = require("node-fetch");
+declare var global: any;
+
+import { FetchOptions, HttpClientImpl } from "@pnp/common";
+
+/**
+ * Mock fetch client returning the JSON registered for the first matching url pattern, or a 404
+ */
+export default class MockFetchClient implements HttpClientImpl {
+
+    public urls: string[] = [];
+    public requests: { url: string, options: FetchOptions }[] = [];
+
+    constructor(public responses: { pattern: RegExp, body: any }[] = []) {
+        global.Headers = nodeFetch.Headers;
+        global.Request = nodeFetch.Request;
+        global.Response = nodeFetch.Response;
+    }
+
+    public fetch(url: string, options: FetchOptions): Promise<Response> {
+
+        this.urls.push(url);
+        this.requests.push({ options, url });
+
+        const match = this.responses.filter(r => r.pattern.test(url));
+
+        if (match.length < 1) {
+            return Promise.resolve(new Response("", { status: 404, statusText: "Not Found" }));
+        }
+
+        return Promise.resolve(new Response(JSON.stringify(match[0].body), {
+            headers: { "Content-Type": "application/json" },
+            status: 200,
+        }));
+    }
+}
@@ -1,6 +1,7 @@
 import { PnPClientStorageWrapper, PnPClientStore, TypedHash } from "@pnp/common";
 import { expect } from "chai";
-import { CachingConfigurationProvider, Settings } from "../../";
+import { Web } from "@pnp/sp";
+import { CachingConfigurationProvider, isWritableConfigurationProvider, Settings, SPListConfigurationProvider } from "../../";
 import { default as MockConfigurationProvider } from "../mock-configurationprovider";
 import MockStorage from "../mock-storage";
 
@@ -61,6 +62,29 @@ describe("Configuration", () => {
             });
         });
 
+        it("Reads the wrapped provider again when reloaded, notifying subscribers", () => {
+            const provider = new CachingConfigurationProvider(wrapped, "cacheKey", store);
+            const changed: string[] = [];
+            return settings.load(provider).then(() => {
+                settings.subscribe(changes => changes.forEach(c => changed.push(c.key)));
+                wrapped.mockValues = {
+                    "key1": "update1",
+                    "key2": "value2",
+                };
+                return settings.reload();
+            }).then(() => {
+                expect(settings.get("key1")).to.eq("update1");
+                expect(changed).to.deep.eq(["key1"]);
+            });
+        });
+
+        it("Is writable only when the wrapped provider is", () => {
+            const provider = new CachingConfigurationProvider(wrapped, "cacheKey", store);
+            const writable = new CachingConfigurationProvider(new SPListConfigurationProvider(new Web("https://fake.sharepoint.com")), "cacheKey", store);
+            expect(isWritableConfigurationProvider(provider)).to.be.false;
+            expect(isWritableConfigurationProvider(writable)).to.be.true;
+        });
+
         it("Uses provided cachekey with a '_configcache_' prefix", () => {
             const provider = new CachingConfigurationProvider(wrapped, "_configcache_cacheKey", store);
             return settings.load(provider).then(() => {
@@ -0,0 +1,28 @@
+import { expect } from "chai";
+import { CompositeConfigurationProvider, Settings } from "../../";
+import { default as MockConfigurationProvider } from "../mock-configurationprovider";
+
+describe("Configuration", () => {
+
+    describe("CompositeConfigurationProvider", () => {
+
+        it("Gives precedence to later providers", () => {
+            const provider = new CompositeConfigurationProvider(
+                new MockConfigurationProvider({ "key1": "global1", "key2": "global2" }),
+                new MockConfigurationProvider({ "key2": "local2", "key3": "local3" }));
+
+            return provider.getConfiguration().then(values => {
+                expect(values).to.deep.eq({ "key1": "global1", "key2": "local2", "key3": "local3" });
+            });
+        });
+
+        it("Rejects if any provider rejects", () => {
+            const failing = new MockConfigurationProvider();
+            failing.shouldReject = true;
+            const provider = new CompositeConfigurationProvider(new MockConfigurationProvider({ "key1": "value1" }), failing);
+            const settings = new Settings();
+
+            return expect(settings.load(provider)).to.be.rejectedWith("Mocked rejection");
+        });
+    });
+});
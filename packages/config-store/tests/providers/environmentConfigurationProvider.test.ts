@@ -0,0 +1,24 @@
+import { expect } from "chai";
+import { EnvironmentConfigurationProvider } from "../../";
+
+describe("Configuration", () => {
+
+    describe("EnvironmentConfigurationProvider", () => {
+
+        it("Loads variables matching the prefix without the prefix", () => {
+            const provider = new EnvironmentConfigurationProvider("MYAPP_", { "MYAPP_key1": "value1", "OTHER_key2": "value2" });
+
+            return provider.getConfiguration().then(values => {
+                expect(values).to.deep.eq({ "key1": "value1" });
+            });
+        });
+
+        it("Reads process.env by default", () => {
+            const provider = new EnvironmentConfigurationProvider();
+
+            return provider.getConfiguration().then(values => {
+                expect(values.PATH).to.eq((<any>process).env.PATH);
+            });
+        });
+    });
+});
@@ -1,8 +1,11 @@
 import { expect } from "chai";
-import { SPListConfigurationProvider } from "../../";
+import { CachingConfigurationProvider, SPListConfigurationProvider, Settings } from "../../";
 import MockStorage from "../mock-storage";
-import { TypedHash }  from "@pnp/common";
-import { Web } from "@pnp/sp";
+import { default as MockFetchClient } from "../mock-fetchclient";
+import { testSettings } from "../../../../test/main";
+import { PnPClientStorageWrapper, TypedHash }  from "@pnp/common";
+import { SPFetchClient } from "@pnp/nodejs";
+import { Web, sp } from "@pnp/sp";
 
 declare var global: any;
 
@@ -77,6 +80,77 @@ describe("Configuration", () => {
         //     });
         // });
 
+        describe("Saving", () => {
+
+            let client: MockFetchClient;
+
+            beforeEach(() => {
+                client = new MockFetchClient([
+                    { body: [{ Id: 1, Title: "key1" }], pattern: /items\?/i },
+                    { body: { ListItemEntityTypeFullName: "SP.Data.ConfigListItem" }, pattern: /ListItemEntityTypeFullName/i },
+                    { body: {}, pattern: /items\(1\)$/i },
+                    { body: { Id: 2 }, pattern: /items$/i },
+                ]);
+                sp.setup({
+                    sp: {
+                        fetchClientFactory: () => client,
+                        headers: {
+                            "X-RequestDigest": "test",
+                        },
+                    },
+                });
+            });
+
+            after(() => {
+                if (testSettings.enableWebTests) {
+                    sp.setup({
+                        sp: {
+                            fetchClientFactory: () => {
+                                return new SPFetchClient(testSettings.sp.webUrl, testSettings.sp.id, testSettings.sp.secret);
+                            },
+                        },
+                    });
+                }
+            });
+
+            it("Updates existing keys and adds new keys", () => {
+                const provider = new SPListConfigurationProvider(web);
+
+                return provider.saveConfiguration({ "key1": "updated", "key2": "added" }).then(() => {
+                    const posts = client.requests.filter(r => r.options.method === "POST");
+                    const update = posts.filter(r => /items\(1\)$/i.test(r.url))[0];
+                    const add = posts.filter(r => /items$/i.test(r.url))[0];
+                    expect(JSON.parse(<string>update.options.body)).to.deep.include({ Value: "updated" });
+                    expect(JSON.parse(<string>add.options.body)).to.deep.include({ Title: "key2", Value: "added" });
+                });
+            });
+
+            it("Reads the existing keys by id range", () => {
+                const provider = new SPListConfigurationProvider(web);
+
+                return provider.saveConfiguration({ "key1": "updated" }).then(() => {
+                    const reads = client.urls.filter(u => /items\?/i.test(u));
+                    expect(reads.some(u => /top=5000/i.test(u))).to.be.false;
+                    expect(reads.some(u => /\$filter=Id gt 0 and Id le 5000/i.test(u))).to.be.true;
+                });
+            });
+
+            it("Saves values from settings and clears the cache", () => {
+                const provider = new SPListConfigurationProvider(web);
+                const store = new PnPClientStorageWrapper(new MockStorage());
+                const cached = new CachingConfigurationProvider(provider, "cacheKey", store);
+                store.put("cacheKey", { "key1": "cached" });
+
+                const settings = new Settings();
+                settings.add("key1", "updated");
+
+                return settings.save(cached).then(() => {
+                    expect(client.requests.filter(r => r.options.method === "POST")).to.have.length(1);
+                    expect(store.get("cacheKey")).to.be.null;
+                });
+            });
+        });
+
         it("Can wrap itself inside a caching configuration provider", () => {
             // Mock localStorage
             (<any>global).localStorage = new MockStorage();
@@ -85,6 +159,7 @@ describe("Configuration", () => {
             const cached = provider.asCaching();
             const wrappedProvider = cached.getWrappedProvider();
             expect(wrappedProvider).to.equal(provider);
+            expect(provider.asCaching()).to.equal(cached);
 
             // Remove localStorage mock
             delete (<any>global).localStorage;
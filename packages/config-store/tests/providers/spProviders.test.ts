@@ -0,0 +1,86 @@
+import { expect } from "chai";
+import { SPJsonFileConfigurationProvider, SPStorageEntityConfigurationProvider, SPWebPropertiesConfigurationProvider } from "../../";
+import { default as MockFetchClient } from "../mock-fetchclient";
+import { testSettings } from "../../../../test/main";
+import { SPFetchClient } from "@pnp/nodejs";
+import { Web, sp } from "@pnp/sp";
+
+describe("Configuration", () => {
+
+    const webUrl = "https://fake.sharepoint.com/sites/test";
+    let client: MockFetchClient;
+
+    beforeEach(() => {
+        client = new MockFetchClient();
+        sp.setup({
+            sp: {
+                fetchClientFactory: () => client,
+            },
+        });
+    });
+
+    after(() => {
+        if (testSettings.enableWebTests) {
+            sp.setup({
+                sp: {
+                    fetchClientFactory: () => {
+                        return new SPFetchClient(testSettings.sp.webUrl, testSettings.sp.id, testSettings.sp.secret);
+                    },
+                },
+            });
+        }
+    });
+
+    describe("SPWebPropertiesConfigurationProvider", () => {
+
+        it("Loads the decoded properties matching the prefix", () => {
+            client.responses.push({
+                body: { "odata.type": "SP.PropertyValues", "myapp_x002e_key1": "value1", "myapp_x002e_count": 2, "vti_x005f_defaultlanguage": "en-us" },
+                pattern: /allproperties/i,
+            });
+
+            const provider = new SPWebPropertiesConfigurationProvider(new Web(webUrl), "myapp.");
+
+            return provider.getConfiguration().then(values => {
+                expect(client.urls[0]).to.match(/_api\/web\/allproperties/i);
+                expect(values).to.deep.eq({ "count": "2", "key1": "value1" });
+            });
+        });
+    });
+
+    describe("SPStorageEntityConfigurationProvider", () => {
+
+        it("Loads the value of each entity, skipping those which are not set", () => {
+            client.responses.push({ body: { Comment: "", Description: "", Value: "value1" }, pattern: /getStorageEntity\('key1'\)/i });
+            client.responses.push({ body: { "odata.null": true }, pattern: /getStorageEntity\('key2'\)/i });
+
+            const provider = new SPStorageEntityConfigurationProvider(new Web(webUrl), ["key1", "key2"]);
+
+            return provider.getConfiguration().then(values => {
+                expect(values).to.deep.eq({ "key1": "value1" });
+            });
+        });
+    });
+
+    describe("SPJsonFileConfigurationProvider", () => {
+
+        it("Loads the values of the file, storing objects as JSON", () => {
+            client.responses.push({ body: { "key1": "value1", "key2": { "prop": true } }, pattern: /settings\.json/i });
+
+            const provider = new SPJsonFileConfigurationProvider(new Web(webUrl), "/sites/test/config/settings.json");
+
+            return provider.getConfiguration().then(values => {
+                expect(values.key1).to.eq("value1");
+                expect(JSON.parse(values.key2)).to.deep.eq({ "prop": true });
+            });
+        });
+
+        it("Rejects if the file does not contain an object", () => {
+            client.responses.push({ body: ["value1"], pattern: /settings\.json/i });
+
+            const provider = new SPJsonFileConfigurationProvider(new Web(webUrl), "/sites/test/config/settings.json");
+
+            return expect(provider.getConfiguration()).to.be.rejectedWith("must contain a JSON object");
+        });
+    });
+});
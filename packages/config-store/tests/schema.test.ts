@@ -0,0 +1,94 @@
+import { expect } from "chai";
+import { Settings, SettingChange, SettingsError } from "../";
+import { default as MockConfigurationProvider } from "./mock-configurationprovider";
+
+describe("Configuration", () => {
+
+    describe("TypedSettings", () => {
+
+        interface AppSettings {
+            apiUrl: string;
+            pageSize: number;
+            enabled: boolean;
+            options: { theme: string };
+        }
+
+        let settings: Settings;
+
+        beforeEach(() => {
+            settings = new Settings();
+        });
+
+        const typed = () => settings.typed<AppSettings>({
+            apiUrl: { required: true, type: "string", validator: v => /^https:/.test(v) || "must use https" },
+            enabled: { default: false, type: "boolean" },
+            options: { type: "json" },
+            pageSize: { default: 50, type: "number", validator: v => v > 0 },
+        });
+
+        it("Converts values to the schema types", () => {
+            settings.apply({ apiUrl: "https://api", enabled: "True", options: "{\"theme\":\"dark\"}", pageSize: "100" });
+            expect(typed().getAll()).to.deep.eq({ apiUrl: "https://api", enabled: true, options: { theme: "dark" }, pageSize: 100 });
+        });
+
+        it("Returns defaults and null for missing values", () => {
+            settings.add("apiUrl", "https://api");
+            expect(typed().get("pageSize")).to.eq(50);
+            expect(typed().get("enabled")).to.be.false;
+            expect(typed().get("options")).to.be.null;
+        });
+
+        it("Throws a SettingsError for a missing required value", () => {
+            try {
+                typed().get("apiUrl");
+                expect.fail(null, null, "Should not return a missing required value");
+            } catch (e) {
+                expect((<SettingsError>e).isSettingsError).to.be.true;
+                expect(e.message).to.contain("required");
+            }
+        });
+
+        it("Throws a SettingsError describing each invalid value", () => {
+            settings.apply({ apiUrl: "http://api", enabled: "maybe", pageSize: "ten" });
+            try {
+                typed().validate();
+                expect.fail(null, null, "Should not validate invalid settings");
+            } catch (e) {
+                expect(e.isSettingsError).to.be.true;
+                expect(e.keys).to.deep.eq(["apiUrl", "enabled", "pageSize"]);
+                expect(e.message).to.contain("must use https");
+            }
+        });
+    });
+
+    describe("Settings change notifications", () => {
+
+        it("Notifies subscribers of changed values when reloaded", () => {
+            const settings = new Settings();
+            const provider = new MockConfigurationProvider({ "key1": "value1", "key2": "value2" });
+            const changes: SettingChange[][] = [];
+
+            return settings.load(provider).then(() => {
+
+                settings.subscribe(c => changes.push(c));
+                provider.mockValues = { "key1": "value1", "key2": "updated" };
+
+                return settings.reload();
+
+            }).then(() => {
+                expect(changes).to.deep.eq([[{ key: "key2", newValue: "updated", oldValue: "value2" }]]);
+                expect(settings.get("key2")).to.eq("updated");
+            });
+        });
+
+        it("Stops notifying once unsubscribed", () => {
+            const settings = new Settings();
+            let count = 0;
+            const unsubscribe = settings.subscribe(() => count++);
+            settings.add("key1", "value1");
+            unsubscribe();
+            settings.add("key1", "value2");
+            expect(count).to.eq(1);
+        });
+    });
+});
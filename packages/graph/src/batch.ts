@@ -1,13 +1,16 @@
-import { ODataBatch, ODataBatchRequestInfo } from "@pnp/odata";
+import { ODataBatch, ODataBatchRequestInfo, HttpRequestError } from "@pnp/odata";
 import { Logger, LogLevel } from "@pnp/logging";
-import { extend, jsS, isUrlAbsolute } from "@pnp/common";
+import { extend, jsS, isUrlAbsolute, combine } from "@pnp/common";
 import { GraphRuntimeConfig } from "./config/graphlibconfig";
 import { GraphHttpClient } from "./net/graphhttpclient";
 
+const logger = Logger.scope("graph.batch");
+
 interface GraphBatchRequestFragment {
     id: string;
     method: string;
     url: string;
+    dependsOn?: string[];
     headers?: string[][] | {
         [key: string]: string;
     };
@@ -35,10 +38,41 @@ interface GraphBatchResponse {
     nextLink?: string;
 }
 
+/**
+ * Options controlling how a single request is run within a batch
+ */
+export interface GraphBatchRequestOptions {
+
+    /**
+     * A name, unique within the batch, used to refer to this request in the dependsOn of other requests
+     */
+    id?: string;
+
+    /**
+     * The ids of requests within the batch which must complete successfully before this request is run
+     */
+    dependsOn?: string[];
+}
+
+/**
+ * Error used to reject a batched request which was not run because a request it depends on failed
+ */
+export class GraphBatchDependencyError extends HttpRequestError {
+
+    public isGraphBatchDependencyError = true;
+
+    constructor(response: Response, public dependsOn: string[]) {
+        super(`Batched request was not run because a request it depends on failed (dependsOn: ${dependsOn.join(", ")}).`, response);
+    }
+}
+
 export class GraphBatch extends ODataBatch {
 
-    constructor(private batchUrl = "https://graph.microsoft.com/v1.0/$batch", private maxRequests = 20) {
+    private _requestOptions: Map<string, GraphBatchRequestOptions>;
+
+    constructor(private batchUrl = combine(GraphRuntimeConfig.baseUrl, GraphRuntimeConfig.version, "$batch"), private maxRequests = 20) {
         super();
+        this._requestOptions = new Map();
     }
 
     /**
@@ -52,37 +86,38 @@ export class GraphBatch extends ODataBatch {
             return url;
         }
 
-        let index = url.indexOf(".com/v1.0/");
-
-        if (index < 0) {
+        const baseUrl = GraphRuntimeConfig.baseUrl.replace(/\/$/, "");
+        let path: string;
 
-            index = url.indexOf(".com/beta/");
+        if (url.toLowerCase().indexOf(`${baseUrl.toLowerCase()}/`) === 0) {
 
-            if (index > -1) {
-
-                // beta url
-                return url.substr(index + 10);
-            }
+            path = url.substr(baseUrl.length);
 
         } else {
-            // v1.0 url
-            return url.substr(index + 9);
+
+            // not the configured service, so we take everything after the host
+            const match = /^[a-z][a-z0-9+.-]*:\/\/[^\/]+(\/.*)?$/i.exec(url);
+            path = match !== null && match[1] !== undefined ? match[1] : "/";
         }
 
-        // no idea
-        return url;
+        // remove the version, which is determined by the url of the batch request
+        return path.replace(/^\/[^\/?]+/, "");
     }
 
-    private static formatRequests(requests: ODataBatchRequestInfo[]): GraphBatchRequestFragment[] {
+    private static formatRequests(requests: ODataBatchRequestInfo[], dependsOn: string[][] = []): GraphBatchRequestFragment[] {
 
         return requests.map((reqInfo, index) => {
 
             let requestFragment: GraphBatchRequestFragment = {
-                id: `${++index}`,
+                id: `${index + 1}`,
                 method: reqInfo.method,
                 url: this.makeUrlRelative(reqInfo.url),
             };
 
+            if (dependsOn[index] !== undefined && dependsOn[index].length > 0) {
+                requestFragment.dependsOn = dependsOn[index];
+            }
+
             let headers = {};
 
             // merge global config headers
@@ -144,29 +179,50 @@ export class GraphBatch extends ODataBatch {
         });
     }
 
+    /**
+     * Sets the options used when the request with the supplied id is added to this batch
+     *
+     * @param requestId The id of the request as supplied to add
+     * @param options The options for the request
+     */
+    public setRequestOptions(requestId: string, options: GraphBatchRequestOptions): void {
+        this._requestOptions.set(requestId, options);
+    }
+
     protected executeImpl(): Promise<void> {
 
-        Logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Executing batch with ${this.requests.length} requests.`, LogLevel.Info);
+        logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Executing batch with ${this.requests.length} requests.`, LogLevel.Info, { batchId: this.batchId });
 
         if (this.requests.length < 1) {
-            Logger.write(`Resolving empty batch.`, LogLevel.Info);
+            logger.write(`Resolving empty batch.`, LogLevel.Info);
             return Promise.resolve();
         }
 
         const client = new GraphHttpClient();
 
-        // create a working copy of our requests
-        const requests = this.requests.slice();
+        let chunks: ODataBatchRequestInfo[][];
+
+        try {
+            chunks = this.split();
+        } catch (e) {
+            return Promise.reject(e);
+        }
 
-        // this is the root of our promise chain
-        const promise = Promise.resolve();
+        return Promise.all(chunks.map(requestsChunk => {
 
-        while (requests.length > 0) {
+            // dependsOn refers to requests by their position within the chunk
+            const positions = new Map<string, string>();
+            requestsChunk.forEach((r, index) => {
+                const o = this._requestOptions.get(r.id);
+                if (o !== undefined && o.id !== undefined) {
+                    positions.set(o.id, `${index + 1}`);
+                }
+            });
 
-            const requestsChunk = requests.splice(0, this.maxRequests);
+            const dependsOn = requestsChunk.map(r => this.getDependsOn(r).map(id => positions.get(id)));
 
             const batchRequest: GraphBatchRequest = {
-                requests: GraphBatch.formatRequests(requestsChunk),
+                requests: GraphBatch.formatRequests(requestsChunk, dependsOn),
             };
 
             const batchOptions = {
@@ -176,29 +232,121 @@ export class GraphBatch extends ODataBatch {
                     "Content-Type": "application/json",
                 },
                 method: "POST",
+                signal: this.signal,
             };
 
-            Logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Sending batch request.`, LogLevel.Info);
+            logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Sending batch request.`, LogLevel.Info, { batchId: this.batchId });
 
-            client.fetch(this.batchUrl, batchOptions)
+            return client.fetch(this.batchUrl, batchOptions)
                 .then(r => r.json())
                 .then((j) => GraphBatch.parseResponse(requestsChunk, j))
                 .then((parsedResponse: { nextLink: string, responses: Response[] }) => {
 
-                    Logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Resolving batched requests.`, LogLevel.Info);
+                    logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Resolving batched requests.`, LogLevel.Info, { batchId: this.batchId });
 
-                    parsedResponse.responses.reduce((chain, response, index) => {
+                    return parsedResponse.responses.reduce((chain, response, index) => {
 
                         const request = requestsChunk[index];
 
-                        Logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Resolving batched request ${request.method} ${request.url}.`, LogLevel.Verbose);
+                        logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Resolving batched request ${request.method} ${request.url}.`,
+                            LogLevel.Verbose, { batchId: this.batchId });
+
+                        // 424 Failed Dependency indicates the request was never run
+                        if (response.status === 424) {
+                            return chain.then(_ => request.reject(new GraphBatchDependencyError(response, this.getDependsOn(request))));
+                        }
 
                         return chain.then(_ => request.parser.parse(response).then(request.resolve).catch(request.reject));
 
-                    }, promise);
+                    }, Promise.resolve());
                 });
-        }
+        })).then(() => void (0));
+    }
+
+    /**
+     * Gets the ids of the requests on which the supplied request depends
+     *
+     * @param request The request
+     */
+    private getDependsOn(request: ODataBatchRequestInfo): string[] {
+        const o = this._requestOptions.get(request.id);
+        return o !== undefined && o.dependsOn !== undefined ? o.dependsOn : [];
+    }
+
+    /**
+     * Groups the requests into chunks of at most maxRequests, keeping requests which depend on each other in the same chunk
+     */
+    private split(): ODataBatchRequestInfo[][] {
+
+        const named = new Map<string, ODataBatchRequestInfo>();
+
+        this.requests.forEach(r => {
+
+            const o = this._requestOptions.get(r.id);
+
+            if (o !== undefined && o.id !== undefined) {
+
+                if (named.has(o.id)) {
+                    throw Error(`Batch request id "${o.id}" is used by more than one request.`);
+                }
+
+                named.set(o.id, r);
+            }
+        });
+
+        // each request starts in its own group, and groups are merged along dependencies
+        const groups = new Map<ODataBatchRequestInfo, ODataBatchRequestInfo[]>();
+        this.requests.forEach(r => groups.set(r, [r]));
+
+        this.requests.forEach(r => {
+
+            this.getDependsOn(r).forEach(id => {
+
+                if (!named.has(id)) {
+                    throw Error(`Batched request depends on "${id}" which is not a request in this batch.`);
+                }
+
+                const target = groups.get(r);
+                const source = groups.get(named.get(id));
+
+                if (target !== source) {
+                    source.forEach(member => {
+                        target.push(member);
+                        groups.set(member, target);
+                    });
+                }
+            });
+        });
+
+        const chunks: ODataBatchRequestInfo[][] = [];
+        const placed = new Set<ODataBatchRequestInfo[]>();
+        let current: ODataBatchRequestInfo[] = [];
+
+        // place each group in request order, keeping the order of requests within the group
+        this.requests.forEach(r => {
+
+            const group = groups.get(r);
+
+            if (placed.has(group)) {
+                return;
+            }
+
+            placed.add(group);
+
+            if (group.length > this.maxRequests) {
+                throw Error(`Batched requests which depend on each other cannot be split, ${group.length} exceeds the limit of ${this.maxRequests}.`);
+            }
+
+            if (current.length + group.length > this.maxRequests) {
+                chunks.push(current);
+                current = [];
+            }
+
+            current.push(...this.requests.filter(req => groups.get(req) === group));
+        });
+
+        chunks.push(current);
 
-        return promise;
+        return chunks;
     }
 }
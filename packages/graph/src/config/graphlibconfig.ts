@@ -1,4 +1,5 @@
-import { LibraryConfiguration, TypedHash, RuntimeConfig, HttpClientImpl, AdalClient } from "@pnp/common";
+import { LibraryConfiguration, TypedHash, RuntimeConfig, HttpClientImpl, AdalClient, RetryPolicy, RequestLimiter } from "@pnp/common";
+import { MiddlewareConfigurationPart } from "@pnp/odata";
 
 export interface GraphConfigurationPart {
     graph?: {
@@ -11,10 +12,30 @@ export interface GraphConfigurationPart {
          * Defines a factory method used to create fetch clients
          */
         fetchClientFactory?: () => HttpClientImpl;
+
+        /**
+         * The root url of the graph service, allowing national clouds or any compatible host to be used, default: https://graph.microsoft.com
+         */
+        baseUrl?: string;
+
+        /**
+         * The version of the graph api used by default, default: v1.0
+         */
+        version?: string;
+
+        /**
+         * Defines how throttled and failed requests are retried, overriding the global retryPolicy
+         */
+        retryPolicy?: RetryPolicy;
+
+        /**
+         * Limits the number of requests sent in parallel and per second, overriding the global requestLimiter
+         */
+        requestLimiter?: RequestLimiter | null;
     };
 }
 
-export interface GraphConfiguration extends LibraryConfiguration, GraphConfigurationPart { }
+export interface GraphConfiguration extends LibraryConfiguration, GraphConfigurationPart, MiddlewareConfigurationPart { }
 
 export function setup(config: GraphConfiguration): void {
     RuntimeConfig.extend(config);
@@ -47,6 +68,46 @@ export class GraphRuntimeConfigImpl {
 
         throw Error("There is no Graph Client available, either set one using configuraiton or provide a valid SPFx Context using setup.");
     }
+
+    public get baseUrl(): string {
+
+        const graphPart = RuntimeConfig.get("graph");
+        if (graphPart !== undefined && graphPart !== null && graphPart.baseUrl !== undefined) {
+            return graphPart.baseUrl;
+        }
+
+        return "https://graph.microsoft.com";
+    }
+
+    public get version(): string {
+
+        const graphPart = RuntimeConfig.get("graph");
+        if (graphPart !== undefined && graphPart !== null && graphPart.version !== undefined) {
+            return graphPart.version;
+        }
+
+        return "v1.0";
+    }
+
+    public get retryPolicy(): RetryPolicy {
+
+        const graphPart = RuntimeConfig.get("graph");
+        if (graphPart !== undefined && graphPart !== null && graphPart.retryPolicy !== undefined) {
+            return graphPart.retryPolicy;
+        }
+
+        return RuntimeConfig.retryPolicy;
+    }
+
+    public get requestLimiter(): RequestLimiter | null {
+
+        const graphPart = RuntimeConfig.get("graph");
+        if (graphPart !== undefined && graphPart !== null && graphPart.requestLimiter !== undefined) {
+            return graphPart.requestLimiter;
+        }
+
+        return RuntimeConfig.requestLimiter;
+    }
 }
 
 export let GraphRuntimeConfig = new GraphRuntimeConfigImpl();
@@ -9,6 +9,8 @@ export {
 
 export {
     GraphBatch,
+    GraphBatchRequestOptions,
+    GraphBatchDependencyError,
 } from "./batch";
 
 export {
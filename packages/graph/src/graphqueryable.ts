@@ -9,10 +9,17 @@ import {
     ODataParser,
     ODataQueryable,
     RequestContext,
+    ODataPage,
+    ODataPageParser,
+    PagingOptions,
+    iteratePages,
+    iterateResults,
+    defineAsyncIterator,
 } from "@pnp/odata";
 import { GraphHttpClient } from "./net/graphhttpclient";
-import { GraphBatch } from "./batch";
+import { GraphBatch, GraphBatchRequestOptions } from "./batch";
 import { GraphEndpoints } from "./types";
+import { GraphRuntimeConfig } from "./config/graphlibconfig";
 
 export interface GraphQueryableConstructor<T> {
     new(baseUrl: string | GraphQueryable, path?: string): T;
@@ -24,6 +31,11 @@ export interface GraphQueryableConstructor<T> {
  */
 export class GraphQueryable<GetType = any> extends ODataQueryable<GraphBatch, GetType> {
 
+    /**
+     * Options applied to requests made by this instance within its batch
+     */
+    protected _batchRequestOptions: GraphBatchRequestOptions | null = null;
+
     /**
      * Creates a new instance of the Queryable class
      *
@@ -44,6 +56,23 @@ export class GraphQueryable<GetType = any> extends ODataQueryable<GraphBatch, Ge
         }
     }
 
+    /**
+     * Adds this query to the supplied batch
+     *
+     * @param batch The batch to which the request is added
+     * @param options Optionally names the request and declares the requests in the batch it depends on
+     */
+    public inBatch(batch: GraphBatch, options?: GraphBatchRequestOptions): this {
+
+        super.inBatch(batch);
+
+        if (options !== undefined) {
+            this._batchRequestOptions = options;
+        }
+
+        return this;
+    }
+
     /**
      * Choose which fields to return
      *
@@ -87,7 +116,14 @@ export class GraphQueryable<GetType = any> extends ODataQueryable<GraphBatch, Ge
         let url = this.toUrl();
 
         if (!isUrlAbsolute(url)) {
-            url = combine("https://graph.microsoft.com", url);
+
+            // a configured version replaces the default, any other endpoint set explicitly is kept
+            const version = GraphRuntimeConfig.version;
+            if (version !== GraphEndpoints.V1 && /^\/?v1\.0(\/|$)/i.test(url)) {
+                url = url.replace(/^(\/?)v1\.0/i, `$1${version}`);
+            }
+
+            url = combine(GraphRuntimeConfig.baseUrl, url);
         }
 
         if (this.query.size > 0) {
@@ -119,7 +155,14 @@ export class GraphQueryable<GetType = any> extends ODataQueryable<GraphBatch, Ge
      */
     protected clone<T extends GraphQueryable>(factory: GraphQueryableConstructor<T>, additionalPath?: string, includeBatch = true): T {
 
-        return <T>super._clone(new factory(this, additionalPath), { includeBatch });
+        const clone = <T>super._clone(new factory(this, additionalPath), { includeBatch });
+
+        // methods such as add send their request from a clone, which must carry the id and dependsOn given to inBatch
+        if (includeBatch && this._batchRequestOptions !== null) {
+            clone._batchRequestOptions = this._batchRequestOptions;
+        }
+
+        return clone;
     }
 
     protected setEndpoint(endpoint: string): this {
@@ -143,6 +186,11 @@ export class GraphQueryable<GetType = any> extends ODataQueryable<GraphBatch, Ge
         pipeline: Array<(c: RequestContext<T>) => Promise<RequestContext<T>>>): Promise<RequestContext<T>> {
 
         const dependencyDispose = this.hasBatch ? this._batchDependency : () => { return; };
+        const requestId = getGUID();
+
+        if (this.hasBatch && this._batchRequestOptions !== null) {
+            this.batch.setRequestOptions(requestId, this._batchRequestOptions);
+        }
 
         return Promise.resolve({
             batch: this.batch,
@@ -155,7 +203,7 @@ export class GraphQueryable<GetType = any> extends ODataQueryable<GraphBatch, Ge
             parser: parser,
             pipeline: pipeline,
             requestAbsoluteUrl: this.toUrlAndQuery(),
-            requestId: getGUID(),
+            requestId: requestId,
             verb: verb,
         });
     }
@@ -225,6 +273,41 @@ export class GraphQueryableCollection<GetType = any[]> extends GraphQueryable<Ge
         this.query.set("$count", "true");
         return this;
     }
+
+    /**
+     * Reads this collection one page at a time by following the @odata.nextLink of each response
+     *
+     * @param options Allows paging to resume from the nextUrl of a stored page and to be cancelled
+     */
+    public paged<T = any>(options: PagingOptions = {}): AsyncIterableIterator<ODataPage<T>> {
+        return iteratePages(nextUrl => this.getPage<T>(nextUrl), extend({ signal: this._options.signal }, options));
+    }
+
+    /**
+     * Iterates over each entry in this collection, requesting the pages as they are needed. Where the environment defines Symbol.asyncIterator
+     * the collection itself can also be used with for await
+     *
+     * @param options Allows iteration to resume from the nextUrl of a stored page and to be cancelled
+     */
+    public iterate<T = any>(options: PagingOptions = {}): AsyncIterableIterator<T> {
+        return iterateResults(this.paged<T>(options));
+    }
+
+    /**
+     * Loads the page found at the supplied url, or the first page when the url is null
+     *
+     * @param nextUrl The url of the page to load
+     */
+    protected getPage<T>(nextUrl: string | null): Promise<ODataPage<T>> {
+        return new GraphQueryableCollection(nextUrl || this.toUrlAndQuery()).configureFrom(this).get(new ODataPageParser<T>());
+    }
+}
+
+// the iterator is attached at runtime so loading this module does not read Symbol.asyncIterator where it is not defined
+defineAsyncIterator(GraphQueryableCollection, collection => collection.iterate());
+
+export interface GraphQueryableCollection<GetType = any[]> {
+    [Symbol.asyncIterator](): AsyncIterator<any>;
 }
 
 export class GraphQueryableSearchableCollection extends GraphQueryableCollection {
@@ -4,7 +4,7 @@ import {
     mergeHeaders,
     FetchOptions,
     HttpClientImpl,
-    getCtxCallback,
+    fetchWithRetry,
 } from "@pnp/common";
 import { GraphRuntimeConfig } from "../config/graphlibconfig";
 
@@ -43,45 +43,12 @@ export class GraphHttpClient implements RequestClient {
         mergeHeaders(rawHeaders, options.headers);
         options = extend(options, { headers: rawHeaders });
 
-        const retry = (ctx: RetryContext): void => {
+        const limiter = GraphRuntimeConfig.requestLimiter;
 
-            this._impl.fetch(url, options).then((response) => ctx.resolve(response)).catch((response) => {
+        // each attempt waits for the limiter, so a request does not hold its place while waiting to retry
+        const send = (u: string, o: FetchOptions) => limiter === null ? this._impl.fetch(u, o) : limiter.schedule(() => this._impl.fetch(u, o), o.signal);
 
-                // Check if request was throttled - http status code 429
-                // Check if request failed due to server unavailable - http status code 503
-                if (response.status !== 429 && response.status !== 503) {
-                    ctx.reject(response);
-                }
-
-                // grab our current delay
-                const delay = ctx.delay;
-
-                // Increment our counters.
-                ctx.delay *= 2;
-                ctx.attempts++;
-
-                // If we have exceeded the retry count, reject.
-                if (ctx.retryCount <= ctx.attempts) {
-                    ctx.reject(response);
-                }
-
-                // Set our retry timeout for {delay} milliseconds.
-                setTimeout(getCtxCallback(this, retry, ctx), delay);
-            });
-        };
-
-        return new Promise((resolve, reject) => {
-
-            const retryContext: RetryContext = {
-                attempts: 0,
-                delay: 100,
-                reject: reject,
-                resolve: resolve,
-                retryCount: 7,
-            };
-
-            retry.call(this, retryContext);
-        });
+        return fetchWithRetry(url, options, send, GraphRuntimeConfig.retryPolicy);
     }
 
     public get(url: string, options: FetchOptions = {}): Promise<Response> {
@@ -104,11 +71,3 @@ export class GraphHttpClient implements RequestClient {
         return this.fetch(url, opts);
     }
 }
-
-interface RetryContext {
-    attempts: number;
-    delay: number;
-    reject: (reason?: any) => void;
-    resolve: (value?: Response | PromiseLike<Response>) => void;
-    retryCount: number;
-}
@@ -1,6 +1,7 @@
 import { GraphQueryableInstance, GraphQueryableCollection, defaultPath } from "./graphqueryable";
 import { Drive as IDrive } from "@microsoft/microsoft-graph-types";
 import { jsS, TypedHash, extend } from "@pnp/common";
+import { BlobParser, BufferParser, TextParser, StreamParser, StreamOptions, ResponseStream, getRangeHeader } from "@pnp/odata";
 
 export interface IDriveItemsMethods {
     getById(id: string): DriveItem;
@@ -136,6 +137,39 @@ export class DriveItem extends GraphQueryableInstance<any> {
             body: jsS(patchBody),
         });
     }
+
+    /**
+     * Gets the content of this Drive Item as text. Not supported in batching.
+     */
+    public getText(): Promise<string> {
+        return this.clone(DriveItem, "content", false).get(new TextParser());
+    }
+
+    /**
+     * Gets the content of this Drive Item as a blob, does not work in Node.js. Not supported in batching.
+     */
+    public getBlob(): Promise<Blob> {
+        return this.clone(DriveItem, "content", false).get(new BlobParser());
+    }
+
+    /**
+     * Gets the content of this Drive Item as an ArrayBuffer, works in Node.js. Not supported in batching.
+     */
+    public getBuffer(): Promise<ArrayBuffer> {
+        return this.clone(DriveItem, "content", false).get(new BufferParser());
+    }
+
+    /**
+     * Gets the content of this Drive Item as a stream, a WHATWG ReadableStream in the browser or a Node.js readable stream in node. Not supported in batching.
+     * A range of the content can be requested, for example to resume a download
+     *
+     * @param options Sets the range of the content to read and a progress callback
+     */
+    public getStream(options: StreamOptions = {}): Promise<ResponseStream> {
+
+        const range = getRangeHeader(options);
+        return this.clone(DriveItem, "content", false).get(new StreamParser(options), range !== null ? { headers: { Range: range } } : {});
+    }
 }
 
 /**
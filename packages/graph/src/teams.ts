@@ -3,7 +3,8 @@ import { Group, GroupType, GroupAddResult } from "./groups";
 import { GraphQueryableInstance, defaultPath, GraphQueryableCollection } from "./graphqueryable";
 import { TeamProperties, TabsConfiguration } from "./types";
 import { ODataParser, ODataDefaultParser } from "@pnp/odata";
-import { FetchOptions, jsS, extend, TypedHash } from "@pnp/common";
+import { FetchOptions, jsS, extend, TypedHash, combine } from "@pnp/common";
+import { GraphRuntimeConfig } from "./config/graphlibconfig";
 
 @defaultPath("teams")
 export class Teams extends GraphQueryableCollection {
@@ -19,7 +20,7 @@ export class Teams extends GraphQueryableCollection {
         const groupProps = {
             "description": description && description.length > 0 ? description : "",
             "owners@odata.bind": [
-                `https://graph.microsoft.com/v1.0/users/${ownerId}`,
+                combine(GraphRuntimeConfig.baseUrl, GraphRuntimeConfig.version, "users", ownerId),
             ],
         };
 
@@ -16,6 +16,18 @@ export class GraphEndpoints {
     }
 }
 
+/**
+ * The root urls of the graph service in each national cloud, for use as the graph baseUrl setting
+ */
+export class GraphCloudEndpoints {
+
+    public static Global = "https://graph.microsoft.com";
+    public static USGov = "https://graph.microsoft.us";
+    public static USGovDoD = "https://dod-graph.microsoft.us";
+    public static Germany = "https://graph.microsoft.de";
+    public static China = "https://microsoftgraph.chinacloudapi.cn";
+}
+
 /**
  * Defines the properties for a Team
  * 
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import { graph, GraphBatch } from "../";
+import { FetchOptions, HttpClientImpl } from "@pnp/common";
+import { AdalFetchClient } from "@pnp/nodejs";
+import { testSettings } from "../../../test/main";
+
+/**
+ * Mock fetch client answering each $batch request with the status set for each request's method, 200 by default
+ */
+class BatchFetchClient implements HttpClientImpl {
+
+    public batches: any[] = [];
+    public statuses: { [method: string]: number } = {};
+
+    public fetch(_: string, options: FetchOptions): Promise<Response> {
+
+        const batch = JSON.parse(options.body);
+        this.batches.push(batch);
+
+        const responses = batch.requests.map((r: any) => ({
+            body: {},
+            id: r.id,
+            status: this.statuses[r.method] || 200,
+        }));
+
+        return Promise.resolve(new Response(JSON.stringify({ responses }), { status: 200 }));
+    }
+}
+
+describe("Graph batch dependencies", () => {
+
+    const mockFetch = new BatchFetchClient();
+    const group = () => graph.groups.getById("g1");
+
+    before(() => {
+        graph.setup({
+            graph: {
+                fetchClientFactory: () => mockFetch,
+            },
+        });
+    });
+
+    beforeEach(() => {
+        mockFetch.batches = [];
+        mockFetch.statuses = {};
+    });
+
+    after(() => {
+        if (testSettings.enableWebTests) {
+            graph.setup({
+                graph: {
+                    fetchClientFactory: () => {
+                        return new AdalFetchClient(testSettings.graph.tenant, testSettings.graph.id, testSettings.graph.secret);
+                    },
+                },
+            });
+        }
+    });
+
+    it("Should send the dependsOn of requests made by methods which clone before sending", () => {
+
+        const batch = graph.createBatch();
+
+        group().owners.inBatch(batch, { id: "owner" }).add("https://graph.microsoft.com/v1.0/users/u1");
+        group().members.inBatch(batch, { dependsOn: ["owner"], id: "member" }).add("https://graph.microsoft.com/v1.0/users/u1");
+        group().inBatch(batch, { dependsOn: ["owner", "member"] }).update({ description: "Ready" });
+
+        return batch.execute().then(() => {
+            expect(mockFetch.batches.length).to.eq(1);
+            expect(mockFetch.batches[0].requests.map((r: any) => r.dependsOn)).to.deep.eq([undefined, ["1"], ["1", "2"]]);
+        });
+    });
+
+    it("Should keep dependent requests in the same $batch request when splitting", () => {
+
+        const batch = new GraphBatch(undefined, 2);
+
+        group().owners.inBatch(batch, { id: "owner" }).add("https://graph.microsoft.com/v1.0/users/u1");
+        graph.users.inBatch(batch).get();
+        group().inBatch(batch, { dependsOn: ["owner"] }).update({ description: "Ready" });
+
+        return batch.execute().then(() => {
+            expect(mockFetch.batches.map(b => b.requests.map((r: any) => `${r.method} ${r.url}`))).to.deep.eq([
+                ["POST /groups/g1/owners/$ref", "PATCH /groups/g1"],
+                ["GET /users"],
+            ]);
+            expect(mockFetch.batches[0].requests[1].dependsOn).to.deep.eq(["1"]);
+        });
+    });
+
+    it("Should reject a request which was not run because its dependency failed with a GraphBatchDependencyError", () => {
+
+        const batch = graph.createBatch();
+        mockFetch.statuses = { PATCH: 424, POST: 400 };
+
+        const owner = group().owners.inBatch(batch, { id: "owner" }).add("https://graph.microsoft.com/v1.0/users/u1");
+        const update = group().inBatch(batch, { dependsOn: ["owner"] }).update({ description: "Ready" });
+
+        return Promise.all([
+            // execute also rejects with the failure of the owner request, we check how each request settles
+            batch.execute().catch(() => null),
+            expect(owner).to.be.rejected,
+            update.then(() => {
+                throw Error("The update should have been rejected");
+            }, e => {
+                expect(e.isGraphBatchDependencyError).to.be.true;
+                expect(e.dependsOn).to.deep.eq(["owner"]);
+            }),
+        ]);
+    });
+
+    it("Should reject when a request depends on an id which is not in the batch", () => {
+
+        const batch = graph.createBatch();
+
+        group().inBatch(batch, { dependsOn: ["missing"] }).update({ description: "Ready" });
+
+        return expect(batch.execute()).to.be.rejectedWith("missing");
+    });
+});
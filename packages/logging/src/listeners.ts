@@ -86,3 +86,267 @@ export class FunctionListener implements LogListener {
         this.method(entry);
     }
 }
+
+/**
+ * Implementation of LogListener which keeps the most recent entries in memory, allowing them to be dumped when an error occurs
+ *
+ */
+export class BufferedListener implements LogListener {
+
+    private _buffer: LogEntry[];
+    private _index: number;
+    private _count: number;
+
+    /**
+     * Creates a new instance of the BufferedListener class
+     *
+     * @constructor
+     * @param maxEntries The number of entries kept, older entries are discarded as new entries arrive
+     * @param onDump [Optional] called with the buffered entries, oldest first, when an entry at or above dumpLevel is logged
+     * @param dumpLevel The level of entry which causes the buffer to be dumped (Default: LogLevel.Error)
+     */
+    constructor(public readonly maxEntries = 100, private onDump?: (entries: LogEntry[]) => void, private dumpLevel: LogLevel = LogLevel.Error) {
+        this._buffer = new Array(Math.max(maxEntries, 1));
+        this._index = 0;
+        this._count = 0;
+    }
+
+    /**
+     * Gets a copy of the buffered entries, oldest first
+     */
+    public get entries(): LogEntry[] {
+        const start = this._count < this._buffer.length ? 0 : this._index;
+        const entries: LogEntry[] = [];
+        for (let i = 0; i < this._count; i++) {
+            entries.push(this._buffer[(start + i) % this._buffer.length]);
+        }
+        return entries;
+    }
+
+    /**
+     * Any associated data that a given logging listener may choose to log or ignore
+     *
+     * @param entry The information to be logged
+     */
+    public log(entry: LogEntry): void {
+
+        this._buffer[this._index] = entry;
+        this._index = (this._index + 1) % this._buffer.length;
+        this._count = Math.min(this._count + 1, this._buffer.length);
+
+        if (typeof this.onDump === "function" && entry.level >= this.dumpLevel && entry.level !== LogLevel.Off) {
+            this.dump();
+        }
+    }
+
+    /**
+     * Clears the buffer, returning the entries it contained oldest first and passing them to the onDump callback if supplied
+     */
+    public dump(): LogEntry[] {
+
+        const entries = this.entries;
+        this.clear();
+
+        if (typeof this.onDump === "function") {
+            this.onDump(entries);
+        }
+
+        return entries;
+    }
+
+    /**
+     * Removes all entries from the buffer
+     */
+    public clear(): void {
+        this._buffer = new Array(this._buffer.length);
+        this._index = 0;
+        this._count = 0;
+    }
+}
+
+/**
+ * Settings used by the HttpListener
+ *
+ */
+export interface HttpListenerOptions {
+    /**
+     * The number of entries which causes the queued entries to be sent immediately (Default: 50)
+     */
+    batchSize?: number;
+    /**
+     * The interval in milliseconds at which queued entries are sent (Default: 5000)
+     */
+    flushInterval?: number;
+    /**
+     * The number of times a failed send is retried before the entries are discarded (Default: 3)
+     */
+    maxRetries?: number;
+    /**
+     * The delay in milliseconds before the first retry, doubled for each following retry (Default: 1000)
+     */
+    retryDelay?: number;
+    /**
+     * Any headers to include in each request
+     */
+    headers?: { [key: string]: string };
+    /**
+     * The fetch implementation used to send requests (Default: the global fetch)
+     */
+    fetch?: (url: string, options: any) => Promise<Response>;
+    /**
+     * Called with the error and entries when entries are discarded after all retries have failed
+     */
+    onError?: (error: any, entries: LogEntry[]) => void;
+}
+
+declare var global: any;
+
+/**
+ * Implementation of LogListener which sends entries in batches, as a JSON array, to an http endpoint using POST
+ *
+ */
+export class HttpListener implements LogListener {
+
+    private _queue: LogEntry[];
+    private _timeout: any;
+    private _options: HttpListenerOptions;
+
+    /**
+     * Creates a new instance of the HttpListener class
+     *
+     * @constructor
+     * @param url The url to which entries are posted
+     * @param options Settings controlling how entries are batched and sent
+     */
+    constructor(public readonly url: string, options: HttpListenerOptions = {}) {
+
+        this._queue = [];
+        this._timeout = null;
+        this._options = {
+            batchSize: 50,
+            flushInterval: 5000,
+            maxRetries: 3,
+            retryDelay: 1000,
+        };
+
+        Object.keys(options).forEach(key => (<any>this._options)[key] = (<any>options)[key]);
+    }
+
+    /**
+     * Gets the number of entries waiting to be sent
+     */
+    public get queued(): number {
+        return this._queue.length;
+    }
+
+    /**
+     * Any associated data that a given logging listener may choose to log or ignore
+     *
+     * @param entry The information to be logged
+     */
+    public log(entry: LogEntry): void {
+
+        this._queue.push(entry);
+
+        if (this._queue.length >= this._options.batchSize) {
+            this.flush();
+        } else if (this._timeout === null) {
+            this._timeout = setTimeout(() => this.flush(), this._options.flushInterval);
+
+            // a pending flush should not keep a node process alive
+            if (typeof this._timeout.unref === "function") {
+                this._timeout.unref();
+            }
+        }
+    }
+
+    /**
+     * Sends all queued entries immediately, resolving once they are sent or discarded
+     */
+    public flush(): Promise<void> {
+
+        if (this._timeout !== null) {
+            clearTimeout(this._timeout);
+            this._timeout = null;
+        }
+
+        if (this._queue.length < 1) {
+            return Promise.resolve();
+        }
+
+        const entries = this._queue.splice(0, this._queue.length);
+
+        return this.send(entries, 0);
+    }
+
+    /**
+     * Posts the supplied entries, retrying on failure
+     *
+     * @param entries The entries to send
+     * @param attempt The number of failed attempts so far
+     */
+    private send(entries: LogEntry[], attempt: number): Promise<void> {
+
+        const fetch = this._options.fetch || ((u: string, o: any) => (typeof window !== "undefined" ? window : global).fetch(u, o));
+        const headers = { "Content-Type": "application/json" };
+        Object.keys(this._options.headers || {}).forEach(key => (<any>headers)[key] = this._options.headers[key]);
+
+        return new Promise<Response>(resolve => resolve(fetch(this.url, {
+            body: JSON.stringify(entries.map(e => this.format(e))),
+            headers: headers,
+            method: "POST",
+        }))).then(response => {
+
+            if (!response.ok) {
+                throw Error(`Sending log entries failed with status [${response.status}] ${response.statusText}`);
+            }
+
+        }).catch(e => {
+
+            if (attempt < this._options.maxRetries) {
+                return new Promise<void>(resolve => {
+                    setTimeout(() => resolve(this.send(entries, attempt + 1)), this._options.retryDelay * Math.pow(2, attempt));
+                });
+            }
+
+            if (typeof this._options.onError === "function") {
+                this._options.onError(e, entries);
+            }
+        });
+    }
+
+    /**
+     * Converts an entry to a plain object which can be serialized, including any error supplied as data
+     *
+     * @param entry The entry to format
+     */
+    private format(entry: LogEntry): any {
+
+        let data = entry.data;
+
+        if (data instanceof Error) {
+            data = { message: data.message, name: data.name, stack: data.stack };
+        } else if (data !== undefined) {
+            try {
+                data = JSON.parse(JSON.stringify(data));
+            } catch (e) {
+                data = `Error in stringify of supplied data ${e}`;
+            }
+        }
+
+        const formatted: any = {
+            data: data,
+            fields: entry.fields,
+            level: entry.level,
+            message: entry.message,
+            span: entry.span,
+            timestamp: entry.timestamp,
+        };
+
+        if (entry.scope !== undefined) {
+            formatted.scope = entry.scope;
+        }
+
+        return formatted;
+    }
+}
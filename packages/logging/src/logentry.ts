@@ -1,5 +1,48 @@
 import { LogLevel } from "./loglevel";
 
+/**
+ * Interface that defines the structured fields of a log entry
+ *
+ */
+export interface LogFields {
+    /**
+     * The id of the request to which the entry relates
+     */
+    requestId?: string;
+    /**
+     * The url of the request
+     */
+    url?: string;
+    /**
+     * The verb of the request
+     */
+    verb?: string;
+    /**
+     * The http status of the response
+     */
+    status?: number;
+    /**
+     * The time in milliseconds taken to complete the request
+     */
+    duration?: number;
+    /**
+     * The number of times the request was retried
+     */
+    retryCount?: number;
+    /**
+     * The id of the batch containing the request
+     */
+    batchId?: string;
+    /**
+     * True if the result was read from the cache
+     */
+    cacheHit?: boolean;
+    /**
+     * Any other fields
+     */
+    [key: string]: any;
+}
+
 /**
  * Interface that defines a log entry
  *
@@ -17,4 +60,20 @@ export interface LogEntry {
      * Any associated data that a given logging listener may choose to log or ignore
      */
     data?: any;
+    /**
+     * Structured values describing the entry, allowing listeners to record entries without parsing the message
+     */
+    fields?: LogFields;
+    /**
+     * The time in milliseconds at which the entry was logged, set by the Logger if not supplied
+     */
+    timestamp?: number;
+    /**
+     * Marks the entry as the start or end of a timed operation, such as a request, identified by its fields
+     */
+    span?: "start" | "end";
+    /**
+     * The name of the scoped logger which wrote the entry, such as "sp.batch"
+     */
+    scope?: string;
 }
@@ -1,5 +1,5 @@
 import { LogListener } from "./listeners";
-import { LogEntry } from "./logentry";
+import { LogEntry, LogFields } from "./logentry";
 import { LogLevel } from "./loglevel";
 
 /**
@@ -28,6 +28,15 @@ export class Logger {
         return Logger._instance;
     }
 
+    /**
+     * Gets the logger for the named scope, allowing the level of its entries to be set independently
+     *
+     * @param name The name of the scope, with child scopes separated by a period such as "sp.batch"
+     */
+    public static scope(name: string): ScopedLogger {
+        return Logger.instance.scope(name);
+    }
+
     /**
      * Adds ILogListener instances to the set of subscribed listeners
      *
@@ -56,9 +65,10 @@ export class Logger {
      *
      * @param message The message to write
      * @param level [Optional] if supplied will be used as the level of the entry (Default: LogLevel.Info)
+     * @param fields [Optional] structured fields describing the entry
      */
-    public static write(message: string, level: LogLevel = LogLevel.Info) {
-        Logger.instance.log({ level: level, message: message });
+    public static write(message: string, level: LogLevel = LogLevel.Info, fields?: LogFields) {
+        Logger.instance.log({ fields: fields, level: level, message: message });
     }
 
     /**
@@ -90,10 +100,110 @@ export class Logger {
     }
 }
 
+/**
+ * Logger writing entries under a named scope, filtered by the level set for that scope
+ *
+ */
+export class ScopedLogger {
+
+    constructor(public readonly name: string, private impl: LoggerImpl) { }
+
+    /**
+     * Gets the level applied to this scope, inherited from the parent scope or the Logger if not set. Set to null to inherit again
+     */
+    public get activeLogLevel(): LogLevel {
+        return this.impl.getLevel(this.name);
+    }
+
+    public set activeLogLevel(value: LogLevel) {
+        this.impl.setLevel(this.name, value);
+    }
+
+    /**
+     * Gets the logger for the named child of this scope
+     *
+     * @param name The name of the child scope
+     */
+    public scope(name: string): ScopedLogger {
+        return this.impl.scope(`${this.name}.${name}`);
+    }
+
+    /**
+     * Writes the supplied string to the subscribed listeners
+     *
+     * @param message The message to write
+     * @param level [Optional] if supplied will be used as the level of the entry (Default: LogLevel.Info)
+     * @param fields [Optional] structured fields describing the entry
+     */
+    public write(message: string, level: LogLevel = LogLevel.Info, fields?: LogFields) {
+        this.log({ fields: fields, level: level, message: message });
+    }
+
+    /**
+     * Writes the supplied string to the subscribed listeners
+     *
+     * @param json The json object to stringify and write
+     * @param level [Optional] if supplied will be used as the level of the entry (Default: LogLevel.Info)
+     */
+    public writeJSON(json: any, level: LogLevel = LogLevel.Info) {
+        this.write(JSON.stringify(json), level);
+    }
+
+    /**
+     * Logs the supplied entry to the subscribed listeners
+     *
+     * @param entry The message to log
+     */
+    public log(entry: LogEntry) {
+        if (entry !== undefined && entry.scope === undefined) {
+            entry.scope = this.name;
+        }
+        this.impl.log(entry);
+    }
+
+    /**
+     * Logs an error object to the subscribed listeners
+     *
+     * @param err The error object
+     */
+    public error(err: Error) {
+        this.log({ data: err, level: LogLevel.Error, message: err.message });
+    }
+}
+
 class LoggerImpl {
 
+    private scopes: { [name: string]: ScopedLogger } = {};
+    private levels: { [name: string]: LogLevel } = {};
+
     constructor(public activeLogLevel: LogLevel = LogLevel.Warning, private subscribers: LogListener[] = []) { }
 
+    public scope(name: string): ScopedLogger {
+        if (!this.scopes.hasOwnProperty(name)) {
+            this.scopes[name] = new ScopedLogger(name, this);
+        }
+        return this.scopes[name];
+    }
+
+    public getLevel(scope?: string): LogLevel {
+        // use the level of the closest scope for which one is set, then the global level
+        while (scope !== undefined && scope !== null && scope.length > 0) {
+            if (this.levels.hasOwnProperty(scope)) {
+                return this.levels[scope];
+            }
+            scope = scope.substr(0, Math.max(scope.lastIndexOf("."), 0));
+        }
+        return this.activeLogLevel;
+    }
+
+    public setLevel(scope: string, level: LogLevel | null) {
+        if (level === undefined || level === null) {
+            delete this.levels[scope];
+        } else {
+            this.levels[scope] = level;
+        }
+    }
+
     public subscribe(listener: LogListener): void {
         this.subscribers.push(listener);
     }
@@ -113,7 +223,10 @@ class LoggerImpl {
     }
 
     public log(entry: LogEntry) {
-        if (entry !== undefined && this.activeLogLevel <= entry.level) {
+        if (entry !== undefined && this.getLevel(entry.scope) <= entry.level) {
+            if (entry.timestamp === undefined) {
+                entry.timestamp = (new Date()).getTime();
+            }
             this.subscribers.map(subscriber => subscriber.log(entry));
         }
     }
@@ -1,4 +1,4 @@
-export { Logger } from "./logger";
-export { LogEntry } from "./logentry";
+export { Logger, ScopedLogger } from "./logger";
+export { LogEntry, LogFields } from "./logentry";
 export { LogLevel } from "./loglevel";
-export { LogListener, ConsoleListener, FunctionListener } from "./listeners";
+export { LogListener, ConsoleListener, FunctionListener, BufferedListener, HttpListener, HttpListenerOptions } from "./listeners";
@@ -1,5 +1,5 @@
 import { expect } from "chai";
-import { Logger, LogLevel, FunctionListener } from "../";
+import { Logger, LogLevel, FunctionListener, LogEntry, BufferedListener, HttpListener } from "../";
 
 describe("Logging", () => {
 
@@ -64,5 +64,173 @@ describe("Logging", () => {
             expect(message2).to.eq("Test message");
             expect(message3).to.eq("Test message");
         });
+
+        it("Should pass structured fields to listeners", () => {
+            let entry: LogEntry = null;
+            logger.subscribe(new FunctionListener((e) => { entry = e; }));
+            logger.activeLogLevel = LogLevel.Verbose;
+            logger.write("Test message", LogLevel.Info, { requestId: "1", status: 200 });
+            expect(entry.fields).to.deep.eq({ requestId: "1", status: 200 });
+        });
+
+        it("Should set the timestamp of entries", () => {
+            let entry: LogEntry = null;
+            logger.subscribe(new FunctionListener((e) => { entry = e; }));
+            logger.activeLogLevel = LogLevel.Verbose;
+            logger.log({ level: LogLevel.Info, message: "Test message" });
+            expect(entry.timestamp).to.be.a("number");
+            logger.log({ level: LogLevel.Info, message: "Test message", timestamp: 5 });
+            expect(entry.timestamp).to.eq(5);
+        });
+    });
+
+    describe("ScopedLogger", () => {
+
+        const entries: LogEntry[] = [];
+
+        beforeEach(() => {
+            entries.length = 0;
+            Logger.clearSubscribers();
+            Logger.subscribe(new FunctionListener(e => entries.push(e)));
+            Logger.activeLogLevel = LogLevel.Warning;
+            Logger.scope("test").activeLogLevel = null;
+            Logger.scope("test.child").activeLogLevel = null;
+        });
+
+        after(() => {
+            Logger.scope("test").activeLogLevel = null;
+            Logger.scope("test.child").activeLogLevel = null;
+        });
+
+        it("Should return the same logger for a scope name", () => {
+            expect(Logger.scope("test")).to.eq(Logger.scope("test"));
+            expect(Logger.scope("test").scope("child")).to.eq(Logger.scope("test.child"));
+        });
+
+        it("Should inherit the level of the parent scope", () => {
+            expect(Logger.scope("test.child").activeLogLevel).to.eq(LogLevel.Warning);
+            Logger.scope("test").activeLogLevel = LogLevel.Info;
+            expect(Logger.scope("test.child").activeLogLevel).to.eq(LogLevel.Info);
+        });
+
+        it("Should filter entries by the level of their scope", () => {
+            Logger.scope("test.child").activeLogLevel = LogLevel.Verbose;
+            Logger.scope("test").write("1", LogLevel.Verbose);
+            Logger.scope("test.child").write("2", LogLevel.Verbose);
+            Logger.write("3", LogLevel.Verbose);
+            expect(entries.map(e => e.message)).to.deep.eq(["2"]);
+            expect(entries[0].scope).to.eq("test.child");
+        });
+
+        it("Should allow a scope to be quieter than the global level", () => {
+            Logger.activeLogLevel = LogLevel.Verbose;
+            Logger.scope("test").activeLogLevel = LogLevel.Off;
+            Logger.scope("test.child").write("1", LogLevel.Error);
+            Logger.write("2", LogLevel.Info);
+            expect(entries.map(e => e.message)).to.deep.eq(["2"]);
+        });
+    });
+
+    describe("BufferedListener", () => {
+
+        it("Should keep only the most recent entries", () => {
+            const listener = new BufferedListener(2);
+            listener.log({ level: LogLevel.Info, message: "1" });
+            listener.log({ level: LogLevel.Info, message: "2" });
+            listener.log({ level: LogLevel.Info, message: "3" });
+            expect(listener.entries.map(e => e.message)).to.deep.eq(["2", "3"]);
+        });
+
+        it("Should dump the buffer when an error is logged", () => {
+            let dumped: LogEntry[] = [];
+            const listener = new BufferedListener(5, entries => dumped = entries);
+            listener.log({ level: LogLevel.Verbose, message: "1" });
+            listener.log({ level: LogLevel.Warning, message: "2" });
+            expect(dumped).to.be.empty;
+            listener.log({ level: LogLevel.Error, message: "3" });
+            expect(dumped.map(e => e.message)).to.deep.eq(["1", "2", "3"]);
+            expect(listener.entries).to.be.empty;
+        });
+
+        it("Should keep the scope of entries written by a scoped logger", () => {
+            const listener = new BufferedListener(5);
+            Logger.clearSubscribers();
+            Logger.subscribe(listener);
+            Logger.scope("test").write("1", LogLevel.Error);
+            Logger.clearSubscribers();
+            expect(listener.entries.map(e => e.scope)).to.deep.eq(["test"]);
+        });
+    });
+
+    describe("HttpListener", () => {
+
+        it("Should post queued entries as a JSON array", () => {
+            const bodies: any[] = [];
+            const listener = new HttpListener("https://logs", {
+                fetch: (_url, options) => {
+                    bodies.push(JSON.parse(options.body));
+                    return Promise.resolve(<any>{ ok: true, status: 200 });
+                },
+            });
+            listener.log({ level: LogLevel.Info, message: "1" });
+            listener.log({ data: Error("failed"), level: LogLevel.Error, message: "2" });
+            expect(listener.queued).to.eq(2);
+            return listener.flush().then(() => {
+                expect(listener.queued).to.eq(0);
+                expect(bodies).to.have.length(1);
+                expect(bodies[0].map((e: any) => e.message)).to.deep.eq(["1", "2"]);
+                expect(bodies[0][1].data.message).to.eq("failed");
+            });
+        });
+
+        it("Should include the scope of entries when set", () => {
+            const bodies: any[] = [];
+            const listener = new HttpListener("https://logs", {
+                fetch: (_url, options) => {
+                    bodies.push(JSON.parse(options.body));
+                    return Promise.resolve(<any>{ ok: true, status: 200 });
+                },
+            });
+            listener.log({ level: LogLevel.Info, message: "1", scope: "sp.batch" });
+            listener.log({ level: LogLevel.Info, message: "2" });
+            return listener.flush().then(() => {
+                expect(bodies[0][0].scope).to.eq("sp.batch");
+                expect(bodies[0][1]).to.not.have.property("scope");
+            });
+        });
+
+        it("Should send entries once the batch size is reached", () => {
+            let count = 0;
+            const listener = new HttpListener("https://logs", {
+                batchSize: 2,
+                fetch: () => {
+                    count++;
+                    return Promise.resolve(<any>{ ok: true, status: 200 });
+                },
+            });
+            listener.log({ level: LogLevel.Info, message: "1" });
+            expect(count).to.eq(0);
+            listener.log({ level: LogLevel.Info, message: "2" });
+            return listener.flush().then(() => expect(count).to.eq(1));
+        });
+
+        it("Should retry failed sends and report entries which could not be sent", () => {
+            let count = 0;
+            let dropped: LogEntry[] = [];
+            const listener = new HttpListener("https://logs", {
+                fetch: () => {
+                    count++;
+                    return Promise.resolve(<any>{ ok: false, status: 500, statusText: "Server Error" });
+                },
+                maxRetries: 2,
+                onError: (_e, entries) => dropped = entries,
+                retryDelay: 1,
+            });
+            listener.log({ level: LogLevel.Info, message: "1" });
+            return listener.flush().then(() => {
+                expect(count).to.eq(3);
+                expect(dropped).to.have.length(1);
+            });
+        });
     });
 });
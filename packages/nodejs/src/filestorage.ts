@@ -0,0 +1,84 @@
+declare var require: (path: string) => any;
+const fs: any = require("fs");
+
+/**
+ * Storage persisted as a JSON document on the local file system, suitable for wrapping with PnPClientStorageWrapper
+ * to share a cache between runs of a nodejs process
+ */
+export class FileStorage {
+
+    private _store: Map<string, string>;
+
+    /**
+     * Creates a new instance of the FileStorage class
+     *
+     * @param path Path to the JSON file used to persist the values, created on first write if it does not exist
+     */
+    constructor(public path: string) {
+        this._store = this.read();
+    }
+
+    public get length(): number {
+        return this._store.size;
+    }
+
+    public clear(): void {
+        this._store.clear();
+        this.write();
+    }
+
+    public getItem(key: string): any {
+        return this._store.has(key) ? this._store.get(key) : null;
+    }
+
+    public key(index: number): string {
+        return Array.from(this._store.keys())[index];
+    }
+
+    public removeItem(key: string): void {
+        if (this._store.delete(key)) {
+            this.write();
+        }
+    }
+
+    public setItem(key: string, data: string): void {
+        this._store.set(key, data);
+        this.write();
+    }
+
+    private read(): Map<string, string> {
+
+        const map = new Map<string, string>();
+
+        if (fs.existsSync(this.path)) {
+
+            try {
+
+                const o = JSON.parse(fs.readFileSync(this.path, "utf8"));
+                Object.keys(o).forEach(k => map.set(k, o[k]));
+
+            } catch (e) {
+                // an unreadable file is treated as an empty cache and replaced on the next write
+            }
+        }
+
+        return map;
+    }
+
+    private write(): void {
+
+        const o: { [key: string]: string } = {};
+        this._store.forEach((v, k) => o[k] = v);
+
+        // the values may be credentials such as tokens, so only the owner of the file can read it. mode only applies when the file is
+        // created, so a file which already exists is restricted before we write to it
+        if (fs.existsSync(this.path)) {
+            fs.chmodSync(this.path, 0o600);
+        }
+
+        fs.writeFileSync(this.path, JSON.stringify(o), { encoding: "utf8", mode: 0o600 });
+    }
+
+    [key: string]: any;
+    [index: number]: string;
+}
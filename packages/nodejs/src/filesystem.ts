@@ -0,0 +1,108 @@
+declare var require: (path: string) => any;
+const fs: any = require("fs");
+const path: any = require("path");
+import { getGUID } from "@pnp/common";
+
+/**
+ * Describes a file or directory on the local disk
+ */
+export interface FileSystemEntry {
+    name: string;
+    isDirectory: boolean;
+    size: number;
+    modified: Date;
+}
+
+/**
+ * Reads and writes the local disk for mirrorDirectory and exportFolder in @pnp/sp
+ */
+export class NodeFileSystem {
+
+    public join(directory: string, name: string): string {
+        return path.join(directory, name);
+    }
+
+    public readDirectory(directory: string): Promise<FileSystemEntry[]> {
+        return call<string[]>(fs.readdir, directory).then(names => Promise.all(names.map(name => this.stat(path.join(directory, name)))));
+    }
+
+    public stat(localPath: string): Promise<FileSystemEntry | null> {
+
+        return call<any>(fs.stat, localPath).then(stats => ({
+            isDirectory: stats.isDirectory(),
+            modified: stats.mtime,
+            name: path.basename(localPath),
+            size: stats.size,
+        })).catch(e => {
+
+            if (e.code === "ENOENT") {
+                return null;
+            }
+
+            throw e;
+        });
+    }
+
+    /**
+     * Creates the supplied directory and any missing parents, resolving true if it was created
+     *
+     * @param localPath The path of the directory
+     */
+    public ensureDirectory(localPath: string): Promise<boolean> {
+
+        return this.stat(localPath).then(entry => {
+
+            if (entry !== null) {
+                return false;
+            }
+
+            return this.ensureDirectory(path.dirname(localPath)).then(() => call(fs.mkdir, localPath)).then(() => true);
+        });
+    }
+
+    public readFile(localPath: string): Promise<ArrayBuffer> {
+        return call<ArrayBuffer>(fs.readFile, localPath);
+    }
+
+    public createReadStream(localPath: string): any {
+        return fs.createReadStream(localPath);
+    }
+
+    /**
+     * Writes a stream to a file and then sets the time the file was modified. The content is written to a temporary file which replaces
+     * the file once complete, so a failed download leaves any existing file unchanged
+     *
+     * @param localPath The path of the file
+     * @param content The stream to write
+     * @param modified The time the file was last modified
+     */
+    public writeFile(localPath: string, content: any, modified: Date): Promise<void> {
+
+        const tempPath = path.join(path.dirname(localPath), `.${path.basename(localPath)}.${getGUID()}.download`);
+
+        return new Promise<void>((resolve, reject) => {
+
+            const output = fs.createWriteStream(tempPath);
+            output.on("finish", resolve);
+            output.on("error", reject);
+            content.on("error", (e: Error) => {
+                // we wait for the file to close before removing it, otherwise it could be created after it was removed
+                output.on("close", () => reject(e));
+                output.destroy();
+            });
+            content.pipe(output);
+
+        }).then(() => call(fs.utimes, tempPath, modified, modified))
+            .then(() => call(fs.rename, tempPath, localPath))
+            .catch(e => call(fs.unlink, tempPath).catch(() => null).then(() => {
+                throw e;
+            }));
+    }
+}
+
+/**
+ * Calls a node style method which takes a callback as its last argument
+ */
+function call<T = void>(method: (...args: any[]) => void, ...args: any[]): Promise<T> {
+    return new Promise((resolve, reject) => method(...args, (err: any, result: T) => err ? reject(err) : resolve(result)));
+}
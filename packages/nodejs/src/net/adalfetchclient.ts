@@ -1,5 +1,6 @@
 import { AuthenticationContext } from "adal-node";
-import { AADToken } from "../types";
+import { AADToken, ITokenCacheManager } from "../types";
+import { MemoryTokenCacheManager, fromAADToken, isTokenExpired, toAADToken } from "../tokencache";
 import {
     combine,
     objectDefinedNotNull,
@@ -8,18 +9,30 @@ import {
     extend,
 } from "@pnp/common";
 import { fetch } from "./fetch";
+import { getAuthority, getResource } from "./authority";
 
 export class AdalFetchClient implements HttpClientImpl {
 
-    private authContext: any;
+    private authContexts: Map<string, any>;
 
+    /**
+     * Creates a new instance of the AdalFetchClient class
+     *
+     * @param _tenant The tenant id or domain
+     * @param _clientId The application id
+     * @param _secret The application secret
+     * @param _resource The resource for which tokens are requested, default: the root of each request's url or https://graph.microsoft.com
+     * @param _authority The authority used to sign in, default: the authority of the resource's cloud
+     * @param _tokenCache The cache in which tokens are stored, default: a memory cache used by this instance
+     */
     constructor(private _tenant: string,
         private _clientId: string,
         private _secret: string,
-        private _resource = "https://graph.microsoft.com",
-        private _authority = "https://login.windows.net") {
+        private _resource: string | null = null,
+        private _authority: string | null = null,
+        private _tokenCache: ITokenCacheManager = new MemoryTokenCacheManager()) {
 
-        this.authContext = new AuthenticationContext(combine(this._authority, this._tenant));
+        this.authContexts = new Map();
     }
 
     public fetch(url: string, options: any): Promise<Response> {
@@ -35,10 +48,13 @@ export class AdalFetchClient implements HttpClientImpl {
         }
 
         if (!isUrlAbsolute(url)) {
-            url = combine(this._resource, url);
+            url = combine(this._resource || "https://graph.microsoft.com", url);
         }
 
-        return this.acquireToken().then(token => {
+        // the resource follows the url of the request, so any configured graph host is used
+        const resource = this._resource || getResource(url);
+
+        return this.acquireToken(resource).then(token => {
 
             options.headers.set("Authorization", `${token.tokenType} ${token.accessToken}`);
 
@@ -46,17 +62,45 @@ export class AdalFetchClient implements HttpClientImpl {
         });
     }
 
-    public acquireToken(): Promise<AADToken> {
-        return new Promise((resolve, reject) => {
+    public acquireToken(resource = this._resource || "https://graph.microsoft.com"): Promise<AADToken> {
 
-            this.authContext.acquireTokenWithClientCredentials(this._resource, this._clientId, this._secret, (err: any, token: AADToken) => {
+        const cacheKey = `adal:${this._clientId}:${resource}`;
 
-                if (err) {
-                    reject(err);
-                } else {
-                    resolve(token);
-                }
-            });
+        return Promise.resolve(this._tokenCache.getAccessToken(this._tenant, cacheKey)).then(cached => {
+
+            // renew tokens five minutes before they expire
+            if (!isTokenExpired(cached, 300000)) {
+                return toAADToken(cached);
+            }
+
+            return new Promise<AADToken>((resolve, reject) => {
+
+                this.getAuthContext(resource).acquireTokenWithClientCredentials(resource, this._clientId, this._secret, (err: any, token: AADToken) => {
+
+                    if (err) {
+                        reject(err);
+                    } else {
+                        resolve(token);
+                    }
+                });
+
+            }).then(token => Promise.resolve(this._tokenCache.setAccessToken(this._tenant, cacheKey, fromAADToken(token))).then(() => token));
         });
     }
+
+    /**
+     * Gets the authentication context for the authority of the supplied resource, creating it if needed
+     *
+     * @param resource The resource for which a token is required
+     */
+    private getAuthContext(resource: string): any {
+
+        const authority = this._authority || getAuthority(resource);
+
+        if (!this.authContexts.has(authority)) {
+            this.authContexts.set(authority, new AuthenticationContext(combine(authority, this._tenant)));
+        }
+
+        return this.authContexts.get(authority);
+    }
 }
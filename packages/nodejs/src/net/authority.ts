@@ -0,0 +1,41 @@
+/**
+ * Maps the hosts of the national cloud services to the authority used to sign in
+ */
+const cloudAuthorities: { [host: string]: string } = {
+    "dod-graph.microsoft.us": "https://login.microsoftonline.us",
+    "graph.microsoft.de": "https://login.microsoftonline.de",
+    "graph.microsoft.us": "https://login.microsoftonline.us",
+    "microsoftgraph.chinacloudapi.cn": "https://login.chinacloudapi.cn",
+    "sharepoint.cn": "https://login.chinacloudapi.cn",
+    "sharepoint.de": "https://login.microsoftonline.de",
+};
+
+/**
+ * Gets the root of the supplied url, such as https://graph.microsoft.com, used as the resource for which tokens are requested
+ *
+ * @param url An absolute url
+ */
+export function getResource(url: string): string {
+    return /^[a-z][a-z0-9+.-]*:\/\/[^\/]+/i.exec(url)[0];
+}
+
+/**
+ * Gets the authority used to sign in to the cloud hosting the supplied resource
+ *
+ * @param resource The resource for which a token is required
+ */
+export function getAuthority(resource: string): string {
+
+    const host = resource.replace(/^[a-z][a-z0-9+.-]*:\/\//i, "").split("/")[0].toLowerCase();
+
+    // match the host itself or any of its parent domains, so tenant hosts such as contoso.sharepoint.cn are found
+    const parts = host.split(".");
+    for (let i = 0; i < parts.length - 1; i++) {
+        const domain = parts.slice(i).join(".");
+        if (cloudAuthorities.hasOwnProperty(domain)) {
+            return cloudAuthorities[domain];
+        }
+    }
+
+    return "https://login.windows.net";
+}
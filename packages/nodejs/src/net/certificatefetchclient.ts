@@ -0,0 +1,212 @@
+declare var require: (path: string) => any;
+import * as jwt from "jsonwebtoken";
+import { createHash } from "crypto";
+import {
+    combine,
+    objectDefinedNotNull,
+    HttpClientImpl,
+    isUrlAbsolute,
+    extend,
+    getGUID,
+} from "@pnp/common";
+import { AuthToken, ITokenCacheManager } from "../types";
+import { MemoryTokenCacheManager, isTokenExpired } from "../tokencache";
+import { fetch } from "./fetch";
+import { getAuthority, getResource } from "./authority";
+
+/**
+ * The certificate used to sign the client assertion
+ */
+export interface CertificateCredential {
+
+    /**
+     * The certificate's private key in PEM format, or a PFX (PKCS #12) file as a Buffer or base64 string
+     */
+    certificate: string | Buffer;
+
+    /**
+     * The SHA-1 thumbprint of the certificate as a hex string, required for a PEM private key and read from the certificate for a PFX
+     */
+    thumbprint?: string;
+
+    /**
+     * The password protecting a PFX file
+     */
+    password?: string;
+}
+
+/**
+ * Fetch client authenticating as an Azure AD application using a certificate, as required for app only access to SharePoint Online
+ */
+export class CertificateFetchClient implements HttpClientImpl {
+
+    private _key: { privateKey: string, thumbprint: string } | null = null;
+
+    /**
+     * Creates a new instance of the CertificateFetchClient class
+     *
+     * @param _tenant The tenant id or domain
+     * @param _clientId The application id
+     * @param _credential The certificate used to sign in
+     * @param _resource The resource for which tokens are requested, default: the root of each request's url or https://graph.microsoft.com
+     * @param _authority The authority used to sign in, default: the authority of the resource's cloud
+     * @param _tokenCache The cache in which tokens are stored, default: a memory cache used by this instance
+     */
+    constructor(private _tenant: string,
+        private _clientId: string,
+        private _credential: CertificateCredential,
+        private _resource: string | null = null,
+        private _authority: string | null = null,
+        private _tokenCache: ITokenCacheManager = new MemoryTokenCacheManager()) { }
+
+    public fetch(url: string, options: any): Promise<Response> {
+
+        if (!objectDefinedNotNull(options)) {
+            options = {
+                headers: new Headers(),
+            };
+        } else if (!objectDefinedNotNull(options.headers)) {
+            options = extend(options, {
+                headers: new Headers(),
+            });
+        }
+
+        if (!isUrlAbsolute(url)) {
+            url = combine(this._resource || "https://graph.microsoft.com", url);
+        }
+
+        return this.acquireToken(this._resource || getResource(url)).then(token => {
+
+            options.headers.set("Authorization", `${token.token_type} ${token.access_token}`);
+
+            return fetch(url, options);
+        });
+    }
+
+    /**
+     * Gets an access token for the supplied resource, reusing a cached token until shortly before it expires
+     *
+     * @param resource The resource for which a token is required
+     */
+    public acquireToken(resource = this._resource || "https://graph.microsoft.com"): Promise<AuthToken> {
+
+        const cacheKey = `certificate:${this._clientId}:${resource}`;
+
+        return Promise.resolve(this._tokenCache.getAccessToken(this._tenant, cacheKey)).then(cached => {
+
+            // renew tokens five minutes before they expire
+            return isTokenExpired(cached, 300000) ? this.requestToken(resource, cacheKey) : cached;
+        });
+    }
+
+    /**
+     * Requests a new token from the token endpoint, adding it to the cache
+     *
+     * @param resource The resource for which a token is required
+     * @param cacheKey The key under which the token is cached
+     */
+    private requestToken(resource: string, cacheKey: string): Promise<AuthToken> {
+
+        const tokenUrl = combine(this._authority || getAuthority(resource), this._tenant, "oauth2/token");
+
+        return new Promise<string>(resolve => resolve(this.getClientAssertion(tokenUrl))).then(assertion => {
+
+            const body = [
+                "grant_type=client_credentials",
+                `client_id=${encodeURIComponent(this._clientId)}`,
+                `client_assertion_type=${encodeURIComponent("urn:ietf:params:oauth:client-assertion-type:jwt-bearer")}`,
+                `client_assertion=${encodeURIComponent(assertion)}`,
+                `resource=${encodeURIComponent(resource)}`,
+            ];
+
+            return fetch(tokenUrl, {
+                body: body.join("&"),
+                headers: {
+                    "Content-Type": "application/x-www-form-urlencoded",
+                },
+                method: "POST",
+            });
+
+        }).then((r: Response) => r.json().then(json => {
+
+            if (!r.ok) {
+                throw Error(`Error acquiring token with certificate [${r.status}] ${json.error_description || r.statusText}`);
+            }
+
+            return Promise.resolve(this._tokenCache.setAccessToken(this._tenant, cacheKey, json)).then(() => <AuthToken>json);
+        }));
+    }
+
+    /**
+     * Creates the signed assertion identifying this application to the token endpoint
+     *
+     * @param audience The url of the token endpoint
+     */
+    private getClientAssertion(audience: string): string {
+
+        const key = this.getKey();
+        const now = Math.floor(Date.now() / 1000);
+
+        return jwt.sign({
+            aud: audience,
+            exp: now + 600,
+            iss: this._clientId,
+            jti: getGUID(),
+            nbf: now,
+            sub: this._clientId,
+        }, key.privateKey, {
+            algorithm: "RS256",
+            header: {
+                alg: "RS256",
+                typ: "JWT",
+                x5t: Buffer.from(key.thumbprint.replace(/[^0-9a-f]/gi, ""), "hex").toString("base64").replace(/=/g, "").replace(/\+/g, "-").replace(/\//g, "_"),
+            },
+        });
+    }
+
+    /**
+     * Reads the private key and thumbprint from the supplied certificate
+     */
+    private getKey(): { privateKey: string, thumbprint: string } {
+
+        if (this._key !== null) {
+            return this._key;
+        }
+
+        const { certificate, password, thumbprint } = this._credential;
+
+        if (typeof certificate === "string" && /-----BEGIN [A-Z ]*PRIVATE KEY-----/.test(certificate)) {
+
+            if (!thumbprint) {
+                throw Error("A thumbprint is required when supplying the certificate as a PEM private key.");
+            }
+
+            this._key = { privateKey: certificate, thumbprint };
+
+        } else {
+
+            // node-forge is only needed to read pfx files, so we load it only when one is supplied
+            const forge = require("node-forge");
+            const der = (typeof certificate === "string" ? Buffer.from(certificate, "base64") : certificate).toString("binary");
+            const pfx = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(der), password || "");
+
+            const keyBags = pfx.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] || [];
+            const plainKeyBags = pfx.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag] || [];
+            const certBags = pfx.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] || [];
+            const keyBag = keyBags.concat(plainKeyBags)[0];
+
+            if (!keyBag || certBags.length < 1) {
+                throw Error("The PFX file must contain a private key and certificate.");
+            }
+
+            const certDer = forge.asn1.toDer(forge.pki.certificateToAsn1(certBags[0].cert)).getBytes();
+
+            this._key = {
+                privateKey: forge.pki.privateKeyToPem(keyBag.key),
+                thumbprint: thumbprint || createHash("sha1").update(Buffer.from(certDer, "binary")).digest("hex"),
+            };
+        }
+
+        return this._key;
+    }
+}
@@ -0,0 +1,213 @@
+import { AuthenticationContext, TokenResponse } from "adal-node";
+import {
+    combine,
+    objectDefinedNotNull,
+    HttpClientImpl,
+    isUrlAbsolute,
+    extend,
+} from "@pnp/common";
+import { AuthToken, ITokenCacheManager } from "../types";
+import { MemoryTokenCacheManager, fromAADToken, isTokenExpired } from "../tokencache";
+import { fetch } from "./fetch";
+import { getAuthority, getResource } from "./authority";
+
+/**
+ * The longest time in seconds for which a refresh token is kept, matching the default inactive lifetime of Azure AD refresh tokens.
+ * adal-node does not return the lifetime of the refresh token, so a token revoked sooner is removed the first time it fails to redeem
+ */
+const refreshTokenLifetime = 90 * 24 * 60 * 60;
+
+/**
+ * Base for fetch clients which sign in as a user, caching the access and refresh tokens so the user signs in only when the refresh token can no longer be used
+ */
+export abstract class DelegatedFetchClient implements HttpClientImpl {
+
+    private authContexts: Map<string, AuthenticationContext>;
+    private pendingTokens: Map<string, Promise<AuthToken>>;
+
+    /**
+     * Creates a new instance of the DelegatedFetchClient class
+     *
+     * @param _tenant The tenant id or domain
+     * @param _clientId The id of the application, which must be registered as a public client
+     * @param _tokenCache The cache in which tokens are stored, use a FileSystemTokenCacheManager to keep the user signed in between runs
+     * @param _resource The resource for which tokens are requested, default: the root of each request's url or https://graph.microsoft.com
+     * @param _authority The authority used to sign in, default: the authority of the resource's cloud
+     */
+    constructor(protected _tenant: string,
+        protected _clientId: string,
+        protected _tokenCache: ITokenCacheManager = new MemoryTokenCacheManager(),
+        protected _resource: string | null = null,
+        protected _authority: string | null = null) {
+
+        this.authContexts = new Map();
+        this.pendingTokens = new Map();
+    }
+
+    public fetch(url: string, options: any): Promise<Response> {
+
+        if (!objectDefinedNotNull(options)) {
+            options = {
+                headers: new Headers(),
+            };
+        } else if (!objectDefinedNotNull(options.headers)) {
+            options = extend(options, {
+                headers: new Headers(),
+            });
+        }
+
+        if (!isUrlAbsolute(url)) {
+            url = combine(this._resource || "https://graph.microsoft.com", url);
+        }
+
+        return this.acquireToken(this._resource || getResource(url)).then(token => {
+
+            options.headers.set("Authorization", `${token.token_type} ${token.access_token}`);
+
+            return fetch(url, options);
+        });
+    }
+
+    /**
+     * Gets an access token for the supplied resource from the cache, by redeeming a cached refresh token or finally by signing in.
+     * Concurrent calls for the same resource share one request, so the user signs in only once
+     *
+     * @param resource The resource for which a token is required
+     */
+    public acquireToken(resource = this._resource || "https://graph.microsoft.com"): Promise<AuthToken> {
+
+        const cacheKey = `${this.getCacheKey()}:${resource}`;
+
+        if (!this.pendingTokens.has(cacheKey)) {
+
+            const remove = () => this.pendingTokens.delete(cacheKey);
+            const pending = this.getToken(resource, cacheKey);
+
+            pending.then(remove, remove);
+            this.pendingTokens.set(cacheKey, pending);
+        }
+
+        return this.pendingTokens.get(cacheKey);
+    }
+
+    /**
+     * Signs in to get a new token for the supplied resource
+     *
+     * @param context The authentication context of the resource's authority
+     * @param resource The resource for which a token is required
+     */
+    protected abstract acquireNewToken(context: AuthenticationContext, resource: string): Promise<TokenResponse>;
+
+    /**
+     * Gets the key identifying the signed in user's tokens within the cache
+     */
+    protected abstract getCacheKey(): string;
+
+    /**
+     * Calls a method of adal-node, converting the callback to a Promise
+     *
+     * @param method The method to call, passing the supplied callback
+     */
+    protected callAdal<T = TokenResponse>(method: (callback: (err: Error, response: any) => void) => void): Promise<T> {
+        return new Promise((resolve, reject) => {
+            method((err, response) => {
+                if (err) {
+                    reject(err);
+                } else if (objectDefinedNotNull(response) && objectDefinedNotNull(response.error)) {
+                    reject(Error(`${response.error}: ${response.errorDescription}`));
+                } else {
+                    resolve(response);
+                }
+            });
+        });
+    }
+
+    /**
+     * Gets an access token from the cache, by redeeming a cached refresh token or by signing in
+     *
+     * @param resource The resource for which a token is required
+     * @param cacheKey The key under which the access token is cached
+     */
+    private getToken(resource: string, cacheKey: string): Promise<AuthToken> {
+
+        const context = this.getAuthContext(resource);
+        const refreshKey = `${this.getCacheKey()}:refresh`;
+
+        return Promise.all([
+            this._tokenCache.getAccessToken(this._tenant, cacheKey),
+            this._tokenCache.getAccessToken(this._tenant, refreshKey),
+        ]).then(([cached, refresh]) => {
+
+            // renew tokens five minutes before they expire
+            if (!isTokenExpired(cached, 300000)) {
+                return cached;
+            }
+
+            let token: Promise<TokenResponse>;
+
+            // a refresh token can be redeemed for any resource, so we keep the latest one for all resources
+            if (objectDefinedNotNull(refresh) && objectDefinedNotNull(refresh.refresh_token)) {
+
+                token = this.callAdal(cb => context.acquireTokenWithRefreshToken(refresh.refresh_token, this._clientId, resource, cb))
+                    .catch(() => this.removeRefreshToken(refresh, refreshKey).then(() => this.acquireNewToken(context, resource)));
+
+            } else {
+
+                token = this.acquireNewToken(context, resource);
+            }
+
+            return token.then(response => this.cacheToken(fromAADToken(response), cacheKey, refreshKey));
+        });
+    }
+
+    /**
+     * Gets the authentication context for the authority of the supplied resource, creating it if needed
+     *
+     * @param resource The resource for which a token is required
+     */
+    private getAuthContext(resource: string): AuthenticationContext {
+
+        const authority = this._authority || getAuthority(resource);
+
+        if (!this.authContexts.has(authority)) {
+            this.authContexts.set(authority, new AuthenticationContext(combine(authority, this._tenant)));
+        }
+
+        return this.authContexts.get(authority);
+    }
+
+    /**
+     * Adds the supplied token to the cache, along with its refresh token which is kept until the refresh token expires
+     *
+     * @param token The token to cache
+     * @param cacheKey The key under which the access token is cached
+     * @param refreshKey The key under which the refresh token is cached
+     */
+    private cacheToken(token: AuthToken, cacheKey: string, refreshKey: string): Promise<AuthToken> {
+
+        const writes = [this._tokenCache.setAccessToken(this._tenant, cacheKey, token)];
+
+        if (objectDefinedNotNull(token.refresh_token)) {
+            writes.push(this._tokenCache.setAccessToken(this._tenant, refreshKey, extend(extend({}, token), {
+                expires_on: `${Math.floor(Date.now() / 1000) + refreshTokenLifetime}`,
+            })));
+        }
+
+        return Promise.all(writes).then(() => token);
+    }
+
+    /**
+     * Removes a refresh token which could not be redeemed, such as one revoked by the tenant, so it is not kept in the cache
+     *
+     * @param refresh The cached refresh token
+     * @param refreshKey The key under which the refresh token is cached
+     */
+    private removeRefreshToken(refresh: AuthToken, refreshKey: string): Promise<void> {
+
+        // caches have no remove method, so we replace the entry with an expired one which no longer holds the refresh token
+        const expired = extend(extend({}, refresh), { access_token: "", expires_on: "0" });
+        delete expired.refresh_token;
+
+        return Promise.resolve(this._tokenCache.setAccessToken(this._tenant, refreshKey, expired));
+    }
+}
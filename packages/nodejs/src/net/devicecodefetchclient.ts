@@ -0,0 +1,45 @@
+import { AuthenticationContext, TokenResponse, UserCodeInfo } from "adal-node";
+import { ITokenCacheManager } from "../types";
+import { MemoryTokenCacheManager } from "../tokencache";
+import { DelegatedFetchClient } from "./delegatedfetchclient";
+
+/**
+ * Fetch client signing in as a user with the device code flow, in which the user enters a code on another device to sign in
+ */
+export class DeviceCodeFetchClient extends DelegatedFetchClient {
+
+    /**
+     * Creates a new instance of the DeviceCodeFetchClient class
+     *
+     * @param tenant The tenant id or domain
+     * @param clientId The id of the application, which must be registered as a public client
+     * @param onDeviceCode Called with the code and url the user needs to sign in, default: writes the message to the console
+     * @param tokenCache The cache in which tokens are stored, use a FileSystemTokenCacheManager to keep the user signed in between runs
+     * @param resource The resource for which tokens are requested, default: the root of each request's url or https://graph.microsoft.com
+     * @param authority The authority used to sign in, default: the authority of the resource's cloud
+     */
+    constructor(tenant: string,
+        clientId: string,
+        private _onDeviceCode: (info: UserCodeInfo) => void = info => console.log(info.message),
+        tokenCache: ITokenCacheManager = new MemoryTokenCacheManager(),
+        resource: string | null = null,
+        authority: string | null = null) {
+
+        super(tenant, clientId, tokenCache, resource, authority);
+    }
+
+    protected acquireNewToken(context: AuthenticationContext, resource: string): Promise<TokenResponse> {
+
+        return this.callAdal<UserCodeInfo>(cb => context.acquireUserCode(resource, this._clientId, "en-us", cb)).then(info => {
+
+            this._onDeviceCode(info);
+
+            // adal polls the token endpoint until the user has signed in or the code expires
+            return this.callAdal(cb => context.acquireTokenWithDeviceCode(resource, this._clientId, info, cb));
+        });
+    }
+
+    protected getCacheKey(): string {
+        return `devicecode:${this._clientId}`;
+    }
+}
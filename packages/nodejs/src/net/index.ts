@@ -1,4 +1,8 @@
 export { AdalFetchClient } from "./adalfetchclient";
 export { BearerTokenFetchClient} from "./bearertokenfetchclient";
+export { CertificateFetchClient, CertificateCredential } from "./certificatefetchclient";
+export { DelegatedFetchClient } from "./delegatedfetchclient";
+export { DeviceCodeFetchClient } from "./devicecodefetchclient";
 export { NodeFetchClient } from "./nodefetchclient";
 export { SPFetchClient } from "./spfetchclient";
+export { UsernamePasswordFetchClient } from "./usernamepasswordfetchclient";
@@ -2,7 +2,7 @@ declare var global: any;
 import { HttpClientImpl, combine, isUrlAbsolute } from "@pnp/common";
 import { NodeFetchClient } from "./nodefetchclient";
 import { getAddInOnlyAccessToken } from "../sptokenutils";
-import { SPOAuthEnv, AuthToken } from "../types";
+import { SPOAuthEnv, AuthToken, ITokenCacheManager } from "../types";
 
 /**
  * Fetch client for use within nodejs, requires you register a client id and secret with app only permissions
@@ -11,13 +11,25 @@ export class SPFetchClient  implements HttpClientImpl  {
 
     protected token: AuthToken | null = null;
 
+    /**
+     * Creates a new instance of the SPFetchClient class
+     *
+     * @param siteUrl The url of the site
+     * @param _clientId The add-in's client id
+     * @param _clientSecret The add-in's client secret
+     * @param authEnv The environment used to sign in, default: SPOAuthEnv.SPO
+     * @param _realm The realm of the tenant, default: read from the site
+     * @param _fetchClient The client used to send requests
+     * @param _tokenCache The cache in which tokens are stored, default: a memory cache shared by all instances
+     */
     constructor(
         public siteUrl: string,
         protected _clientId: string,
         protected _clientSecret: string,
         public authEnv: SPOAuthEnv = SPOAuthEnv.SPO,
         protected _realm = "",
-        protected _fetchClient: HttpClientImpl = new NodeFetchClient()) {
+        protected _fetchClient: HttpClientImpl = new NodeFetchClient(),
+        protected _tokenCache?: ITokenCacheManager) {
 
         global._spPageContextInfo = {
             webAbsoluteUrl: siteUrl,
@@ -28,7 +40,7 @@ export class SPFetchClient  implements HttpClientImpl  {
 
         const realm = await this.getRealm();
         const authUrl = await this.getAuthUrl(realm);
-        const token = await getAddInOnlyAccessToken(this.siteUrl, this._clientId, this._clientSecret, realm, authUrl);
+        const token = await getAddInOnlyAccessToken(this.siteUrl, this._clientId, this._clientSecret, realm, authUrl, this._tokenCache);
 
         options.headers.set("Authorization", `Bearer ${token.access_token}`);
 
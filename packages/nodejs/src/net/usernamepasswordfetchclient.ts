@@ -0,0 +1,41 @@
+import { AuthenticationContext, TokenResponse } from "adal-node";
+import { ITokenCacheManager } from "../types";
+import { MemoryTokenCacheManager } from "../tokencache";
+import { DelegatedFetchClient } from "./delegatedfetchclient";
+
+/**
+ * Fetch client signing in as a user with their username and password (resource owner password credentials). This flow does not support multi-factor
+ * authentication or federated accounts and is intended for test tenants and automation accounts
+ */
+export class UsernamePasswordFetchClient extends DelegatedFetchClient {
+
+    /**
+     * Creates a new instance of the UsernamePasswordFetchClient class
+     *
+     * @param tenant The tenant id or domain
+     * @param clientId The id of the application, which must be registered as a public client
+     * @param _username The user principal name of the user
+     * @param _password The user's password
+     * @param tokenCache The cache in which tokens are stored
+     * @param resource The resource for which tokens are requested, default: the root of each request's url or https://graph.microsoft.com
+     * @param authority The authority used to sign in, default: the authority of the resource's cloud
+     */
+    constructor(tenant: string,
+        clientId: string,
+        private _username: string,
+        private _password: string,
+        tokenCache: ITokenCacheManager = new MemoryTokenCacheManager(),
+        resource: string | null = null,
+        authority: string | null = null) {
+
+        super(tenant, clientId, tokenCache, resource, authority);
+    }
+
+    protected acquireNewToken(context: AuthenticationContext, resource: string): Promise<TokenResponse> {
+        return this.callAdal(cb => context.acquireTokenWithUsernamePassword(resource, this._username, this._password, this._clientId, cb));
+    }
+
+    protected getCacheKey(): string {
+        return `password:${this._clientId}:${this._username.toLowerCase()}`;
+    }
+}
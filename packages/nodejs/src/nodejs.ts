@@ -17,7 +17,10 @@ const NodeFetch = require("node-fetch");
 
 })(global);
 
-export { AADToken, SPOAuthEnv } from "./types";
+export { AADToken, AuthToken, ITokenCacheManager, SPOAuthEnv } from "./types";
 export { ProviderHostedRequestContext } from "./providerhosted";
+export { FileStorage } from "./filestorage";
+export { NodeFileSystem, FileSystemEntry } from "./filesystem";
+export { MemoryTokenCacheManager, FileSystemTokenCacheManager, getTokenExpiry, isTokenExpired } from "./tokencache";
 export * from "./net/index";
 export { setProxyUrl } from "./net/proxy";
@@ -4,25 +4,9 @@ const nodeFetch = require("node-fetch").default;
 import * as jwt from "jsonwebtoken";
 import { TypedHash } from "@pnp/common";
 import { AuthToken, SharePointServicePrincipal, ITokenCacheManager } from "./types";
+import { MemoryTokenCacheManager, isTokenExpired } from "./tokencache";
 
-class MapCacheManager implements ITokenCacheManager {
-
-    private map: Map<string, AuthToken> = new Map<string, AuthToken>();
-
-    public getAccessToken(realm: string, cacheKey: string) {
-        return this.map.get(this.buildKey(realm, cacheKey));
-    }
-
-    public setAccessToken(realm: string, cacheKey: string, token: AuthToken) {
-        this.map.set(this.buildKey(realm, cacheKey), token);
-    }
-
-    private buildKey(realm: string, cacheKey: string) {
-        return `${realm}:${cacheKey}`;
-    }
-}
-
-const tokenCache: ITokenCacheManager = new MapCacheManager();
+const tokenCache: ITokenCacheManager = new MemoryTokenCacheManager();
 
 export async function validateProviderHostedRequestToken(requestToken: string, clientSecret: string): Promise<TypedHash<string>> {
 
@@ -39,16 +23,31 @@ export async function validateProviderHostedRequestToken(requestToken: string, c
 /**
  * Gets an add-in only authentication token based on the supplied site url, client id and secret
  */
-export async function getAddInOnlyAccessToken(siteUrl: string, clientId: string, clientSecret: string, realm: string, stsUri: string): Promise<AuthToken> {
-    return getTokenInternal({ siteUrl, clientId, clientSecret, refreshToken: null, realm, stsUri, cacheKey: `addinonly:${clientId}` });
+export async function getAddInOnlyAccessToken(
+    siteUrl: string,
+    clientId: string,
+    clientSecret: string,
+    realm: string,
+    stsUri: string,
+    cache = tokenCache): Promise<AuthToken> {
+
+    return getTokenInternal({ siteUrl, clientId, clientSecret, refreshToken: null, realm, stsUri, cacheKey: `addinonly:${clientId}`, cache });
 }
 
 /**
  * Gets a user authentication token based on the supplied site url, client id, client secret, and refresh token
  */
-// tslint:disable-next-line: max-line-length
-export function getUserAccessToken(siteUrl: string, clientId: string, clientSecret: string, refreshToken: string, realm: string, stsUri: string, cacheKey: string): Promise<AuthToken> {
-    return getTokenInternal({ siteUrl, clientId, clientSecret, refreshToken, realm, stsUri, cacheKey: `user:${cacheKey}` });
+export function getUserAccessToken(
+    siteUrl: string,
+    clientId: string,
+    clientSecret: string,
+    refreshToken: string,
+    realm: string,
+    stsUri: string,
+    cacheKey: string,
+    cache = tokenCache): Promise<AuthToken> {
+
+    return getTokenInternal({ siteUrl, clientId, clientSecret, refreshToken, realm, stsUri, cacheKey: `user:${cacheKey}`, cache });
 }
 
 interface GetTokenInternalParams {
@@ -59,12 +58,13 @@ interface GetTokenInternalParams {
     realm: string;
     stsUri: string;
     cacheKey: string;
+    cache: ITokenCacheManager;
 }
 
 async function getTokenInternal(params: GetTokenInternalParams): Promise<AuthToken> {
 
-    let accessToken = tokenCache.getAccessToken(params.realm, params.cacheKey);
-    if (accessToken && new Date() < toDate(accessToken.expires_on)) {
+    let accessToken = await params.cache.getAccessToken(params.realm, params.cacheKey);
+    if (!isTokenExpired(accessToken)) {
         return accessToken;
     }
 
@@ -91,7 +91,7 @@ async function getTokenInternal(params: GetTokenInternalParams): Promise<AuthTok
     });
 
     accessToken = await r.json();
-    tokenCache.setAccessToken(params.realm, params.cacheKey, accessToken);
+    await params.cache.setAccessToken(params.realm, params.cacheKey, accessToken);
     return accessToken;
 }
 
@@ -103,13 +103,3 @@ function getFormattedPrincipal(principalName: string, hostName: string, realm: s
     resource += "@" + realm;
     return resource;
 }
-
-function toDate(epoch: string): Date {
-    let tmp = parseInt(epoch, 10);
-    if (tmp < 10000000000) {
-        tmp *= 1000;
-    }
-    const d = new Date();
-    d.setTime(tmp);
-    return d;
-}
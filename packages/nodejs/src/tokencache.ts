@@ -0,0 +1,167 @@
+import { AADToken, AuthToken, ITokenCacheManager } from "./types";
+import { FileStorage } from "./filestorage";
+
+/**
+ * Gets the time, in milliseconds, at which the supplied token expires
+ *
+ * @param token The token to check
+ */
+export function getTokenExpiry(token: AuthToken): number {
+
+    let expiresOn = parseInt(token.expires_on, 10);
+
+    // expires_on is normally in seconds, but some services return milliseconds
+    if (expiresOn < 10000000000) {
+        expiresOn *= 1000;
+    }
+
+    return expiresOn;
+}
+
+/**
+ * Determines if the supplied token has expired, or will expire within the supplied number of milliseconds
+ *
+ * @param token The token to check
+ * @param skew The number of milliseconds before the expiry at which the token is treated as expired, default: 0
+ */
+export function isTokenExpired(token: AuthToken | null | undefined, skew = 0): boolean {
+    return token === null || token === undefined || isNaN(getTokenExpiry(token)) || getTokenExpiry(token) - skew <= Date.now();
+}
+
+/**
+ * Converts a token returned by adal-node to the form stored in token caches
+ *
+ * @param token The token returned by adal-node
+ */
+export function fromAADToken(token: AADToken & { refreshToken?: string }): AuthToken {
+
+    const expiresOn = Math.floor(new Date(<any>token.expiresOn).getTime() / 1000);
+
+    return {
+        access_token: token.accessToken,
+        expires_in: `${token.expiresIn}`,
+        expires_on: `${expiresOn}`,
+        not_before: `${expiresOn - token.expiresIn}`,
+        refresh_token: token.refreshToken,
+        resource: token.resource,
+        token_type: token.tokenType,
+    };
+}
+
+/**
+ * Converts a token stored in a token cache to the form returned by adal-node
+ *
+ * @param token The cached token
+ */
+export function toAADToken(token: AuthToken): AADToken {
+    return {
+        accessToken: token.access_token,
+        expiresIn: parseInt(token.expires_in, 10),
+        expiresOn: new Date(getTokenExpiry(token)),
+        resource: token.resource,
+        tokenType: token.token_type,
+    };
+}
+
+/**
+ * Token cache held in memory, shared for the life of the process
+ */
+export class MemoryTokenCacheManager implements ITokenCacheManager {
+
+    private map: Map<string, AuthToken> = new Map<string, AuthToken>();
+
+    public getAccessToken(realm: string, cacheKey: string) {
+
+        const key = this.buildKey(realm, cacheKey);
+        const token = this.map.get(key);
+
+        if (token !== undefined && isTokenExpired(token)) {
+            this.map.delete(key);
+            return undefined;
+        }
+
+        return token;
+    }
+
+    public setAccessToken(realm: string, cacheKey: string, token: AuthToken) {
+
+        // remove any expired tokens so a long running process does not keep every token it has used
+        this.map.forEach((value, key) => {
+            if (isTokenExpired(value)) {
+                this.map.delete(key);
+            }
+        });
+
+        this.map.set(this.buildKey(realm, cacheKey), token);
+    }
+
+    private buildKey(realm: string, cacheKey: string) {
+        return `${realm}:${cacheKey}`;
+    }
+}
+
+/**
+ * The prefix of the keys under which FileSystemTokenCacheManager stores tokens, so the file can hold other values
+ */
+const fileSystemKeyPrefix = "pnp_token:";
+
+/**
+ * Token cache persisted as a JSON document on the local file system, allowing tokens to be reused between runs of a nodejs process
+ */
+export class FileSystemTokenCacheManager implements ITokenCacheManager {
+
+    private storage: FileStorage;
+
+    /**
+     * Creates a new instance of the FileSystemTokenCacheManager class
+     *
+     * @param path Path to the JSON file used to persist the tokens, created on first write if it does not exist
+     */
+    constructor(public readonly path: string) {
+        this.storage = new FileStorage(path);
+    }
+
+    public getAccessToken(realm: string, cacheKey: string) {
+
+        const token = this.read(this.buildKey(realm, cacheKey));
+        return token === null || isTokenExpired(token) ? undefined : token;
+    }
+
+    public setAccessToken(realm: string, cacheKey: string, token: AuthToken) {
+
+        // remove any expired tokens so the file does not grow with each new token, leaving values we did not store and entries we cannot read
+        for (let i = this.storage.length - 1; i >= 0; i--) {
+            const key = this.storage.key(i);
+            const stored = key.indexOf(fileSystemKeyPrefix) === 0 ? this.read(key) : null;
+            if (stored !== null && isTokenExpired(stored)) {
+                this.storage.removeItem(key);
+            }
+        }
+
+        this.storage.setItem(this.buildKey(realm, cacheKey), JSON.stringify(token));
+    }
+
+    /**
+     * Reads the token stored under the supplied key, null if there is none or it cannot be parsed
+     *
+     * @param key The key of the token
+     */
+    private read(key: string): AuthToken | null {
+
+        const value = this.storage.getItem(key);
+
+        if (value === null) {
+            return null;
+        }
+
+        try {
+            return <AuthToken>JSON.parse(value);
+        } catch (e) {
+            return null;
+        }
+    }
+
+    private buildKey(realm: string, cacheKey: string) {
+        return `${fileSystemKeyPrefix}${realm}:${cacheKey}`;
+    }
+}
@@ -24,6 +24,7 @@ export interface AuthToken {
     expires_on: string;
     resource: string;
     access_token: string;
+    refresh_token?: string;
 }
 
 export interface ProviderHostedConfigurationOptions {
@@ -32,7 +33,25 @@ export interface ProviderHostedConfigurationOptions {
     };
 }
 
+/**
+ * Stores the tokens acquired by the node fetch clients, implementations may be synchronous or return a Promise
+ */
 export interface ITokenCacheManager {
-    getAccessToken(realm: string, cacheKey: string): AuthToken;
-    setAccessToken(realm: string, cacheKey: string, token: AuthToken): void;
+
+    /**
+     * Gets a token from the cache, returning undefined if there is no token or it has expired
+     *
+     * @param realm The tenant or realm to which the token belongs
+     * @param cacheKey The key identifying the token within the realm
+     */
+    getAccessToken(realm: string, cacheKey: string): AuthToken | undefined | Promise<AuthToken | undefined>;
+
+    /**
+     * Adds or replaces a token in the cache
+     *
+     * @param realm The tenant or realm to which the token belongs
+     * @param cacheKey The key identifying the token within the realm
+     * @param token The token to store, expiring at its expires_on value
+     */
+    setAccessToken(realm: string, cacheKey: string, token: AuthToken): void | Promise<void>;
 }
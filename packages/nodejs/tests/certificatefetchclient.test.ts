@@ -0,0 +1,121 @@
+declare var require: (path: string) => any;
+const forge: any = require("node-forge");
+const http: any = require("http");
+const querystring: any = require("querystring");
+
+import { expect } from "chai";
+import * as jwt from "jsonwebtoken";
+import { createHash } from "crypto";
+import { extend } from "@pnp/common";
+import { CertificateFetchClient } from "../";
+
+describe("CertificateFetchClient", () => {
+
+    let server: any;
+    let authority: string;
+    let requests: any[];
+    let privateKey: string;
+    let publicKey: string;
+    let pfx: Buffer;
+    let certThumbprint: string;
+
+    before(done => {
+
+        const keys = forge.pki.rsa.generateKeyPair({ bits: 2048, e: 0x10001 });
+        const cert = forge.pki.createCertificate();
+        cert.publicKey = keys.publicKey;
+        cert.serialNumber = "01";
+        cert.validity.notBefore = new Date();
+        cert.validity.notAfter = new Date(Date.now() + 86400000);
+        cert.setSubject([{ name: "commonName", value: "pnpjs" }]);
+        cert.setIssuer([{ name: "commonName", value: "pnpjs" }]);
+        cert.sign(keys.privateKey, forge.md.sha256.create());
+
+        privateKey = forge.pki.privateKeyToPem(keys.privateKey);
+        publicKey = forge.pki.publicKeyToPem(keys.publicKey);
+        pfx = Buffer.from(forge.asn1.toDer(forge.pkcs12.toPkcs12Asn1(keys.privateKey, cert, "secret", { algorithm: "3des" })).getBytes(), "binary");
+        certThumbprint = createHash("sha1").update(Buffer.from(forge.asn1.toDer(forge.pki.certificateToAsn1(cert)).getBytes(), "binary")).digest("hex");
+
+        // token endpoint recording each request's form and answering with a token valid for an hour
+        server = http.createServer((req: any, res: any) => {
+
+            let body = "";
+            req.on("data", (chunk: string) => body += chunk);
+            req.on("end", () => {
+                requests.push(extend({ url: req.url }, querystring.parse(body)));
+                res.writeHead(200, { "Content-Type": "application/json" });
+                res.end(JSON.stringify({
+                    access_token: "token",
+                    expires_on: `${Math.floor(Date.now() / 1000) + 3600}`,
+                    token_type: "Bearer",
+                }));
+            });
+        });
+
+        server.listen(0, "127.0.0.1", () => {
+            authority = `http://127.0.0.1:${server.address().port}`;
+            done();
+        });
+    });
+
+    beforeEach(() => {
+        requests = [];
+    });
+
+    after(done => {
+        server.close(done);
+    });
+
+    it("Should sign the client assertion with a PEM private key and the supplied thumbprint", () => {
+
+        const client = new CertificateFetchClient("tenant", "client", { certificate: privateKey, thumbprint: "AB:CD:EF" }, "https://contoso.sharepoint.com", authority);
+
+        return client.acquireToken().then(token => {
+
+            expect(token.access_token).to.eq("token");
+            expect(requests.length).to.eq(1);
+            expect(requests[0].url).to.eq("/tenant/oauth2/token");
+            expect(requests[0].resource).to.eq("https://contoso.sharepoint.com");
+
+            jwt.verify(requests[0].client_assertion, publicKey, { algorithms: ["RS256"] });
+            const assertion: any = jwt.decode(requests[0].client_assertion, { complete: true });
+            expect(assertion.header.x5t).to.eq("q83v");
+            expect(assertion.payload).to.include({ aud: `${authority}/tenant/oauth2/token`, iss: "client", sub: "client" });
+        });
+    });
+
+    it("Should read the private key and thumbprint from a PFX file", () => {
+
+        const client = new CertificateFetchClient("tenant", "client", { certificate: pfx, password: "secret" }, "https://contoso.sharepoint.com", authority);
+
+        return client.acquireToken().then(() => {
+
+            jwt.verify(requests[0].client_assertion, publicKey, { algorithms: ["RS256"] });
+            const assertion: any = jwt.decode(requests[0].client_assertion, { complete: true });
+            expect(assertion.header.x5t).to.eq(Buffer.from(certThumbprint, "hex").toString("base64").replace(/=/g, "").replace(/\+/g, "-").replace(/\//g, "_"));
+        });
+    });
+
+    it("Should reuse the cached token until it is about to expire", () => {
+
+        const client = new CertificateFetchClient("tenant", "client", { certificate: privateKey, thumbprint: "ab" }, "https://contoso.sharepoint.com", authority);
+
+        return client.acquireToken().then(() => client.acquireToken()).then(() => {
+            expect(requests.length).to.eq(1);
+        });
+    });
+
+    it("Should reject a PEM private key without a thumbprint", () => {
+
+        const client = new CertificateFetchClient("tenant", "client", { certificate: privateKey }, "https://contoso.sharepoint.com", authority);
+
+        return expect(client.acquireToken()).to.be.rejectedWith("thumbprint");
+    });
+
+    it("Should reject a PFX file opened with the wrong password", () => {
+
+        const client = new CertificateFetchClient("tenant", "client", { certificate: pfx.toString("base64"), password: "wrong" }, "https://contoso.sharepoint.com", authority);
+
+        return expect(client.acquireToken()).to.be.rejected.then(() => expect(requests.length).to.eq(0));
+    });
+});
@@ -0,0 +1,71 @@
+import { expect } from "chai";
+import { AuthenticationContext, TokenResponse } from "adal-node";
+import { DelegatedFetchClient } from "../";
+
+/**
+ * Delegated client counting each sign in, which resolves after a short delay with a token valid for an hour
+ */
+class CountingDelegatedFetchClient extends DelegatedFetchClient {
+
+    public signIns = 0;
+
+    protected acquireNewToken(_: AuthenticationContext, resource: string): Promise<TokenResponse> {
+
+        this.signIns++;
+
+        return new Promise(resolve => setTimeout(() => resolve(<any>{
+            accessToken: `token${this.signIns}`,
+            expiresIn: 3600,
+            expiresOn: new Date(Date.now() + 3600000),
+            resource,
+            tokenType: "Bearer",
+        }), 10));
+    }
+
+    protected getCacheKey(): string {
+        return "user";
+    }
+}
+
+describe("DelegatedFetchClient", () => {
+
+    it("Should share one sign in between concurrent requests for a resource", () => {
+
+        const client = new CountingDelegatedFetchClient("tenant", "client");
+
+        return Promise.all([client.acquireToken(), client.acquireToken()]).then(([first, second]) => {
+            expect(client.signIns).to.eq(1);
+            expect(first.access_token).to.eq("token1");
+            expect(second.access_token).to.eq("token1");
+        });
+    });
+
+    it("Should sign in separately for each resource", () => {
+
+        const client = new CountingDelegatedFetchClient("tenant", "client");
+
+        return Promise.all([
+            client.acquireToken("https://graph.microsoft.com"),
+            client.acquireToken("https://contoso.sharepoint.com"),
+        ]).then(() => {
+            expect(client.signIns).to.eq(2);
+        });
+    });
+
+    it("Should sign in again once a failed sign in has settled", () => {
+
+        const client = new CountingDelegatedFetchClient("tenant", "client");
+        const acquireNewToken = (<any>client).acquireNewToken;
+        (<any>client).acquireNewToken = () => Promise.reject(Error("cancelled"));
+
+        return client.acquireToken().then(() => {
+            throw Error("The sign in should have failed");
+        }, e => {
+            expect(e.message).to.eq("cancelled");
+            (<any>client).acquireNewToken = acquireNewToken;
+            return client.acquireToken();
+        }).then(token => {
+            expect(token.access_token).to.eq("token1");
+        });
+    });
+});
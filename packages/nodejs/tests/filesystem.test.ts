@@ -0,0 +1,55 @@
+declare var require: (path: string) => any;
+const fs: any = require("fs");
+const os: any = require("os");
+const path: any = require("path");
+
+import { expect } from "chai";
+import { Readable } from "stream";
+import { NodeFileSystem } from "../";
+
+describe("NodeFileSystem", () => {
+
+    const fileSystem = new NodeFileSystem();
+    const modified = new Date("2019-05-01T00:00:00Z");
+    let directory: string;
+    let file: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "pnp-fs-"));
+        file = path.join(directory, "a.txt");
+        fs.writeFileSync(file, "existing");
+    });
+
+    afterEach(() => {
+        fs.readdirSync(directory).forEach((name: string) => fs.unlinkSync(path.join(directory, name)));
+        fs.rmdirSync(directory);
+    });
+
+    it("Should replace the file with the content and set the time it was modified", () => {
+
+        const content = new Readable({ read: () => null });
+        content.push("downloaded");
+        content.push(null);
+
+        return fileSystem.writeFile(file, content, modified).then(() => {
+            expect(fs.readFileSync(file, "utf8")).to.eq("downloaded");
+            expect(fs.statSync(file).mtime.getTime()).to.eq(modified.getTime());
+            expect(fs.readdirSync(directory)).to.deep.eq(["a.txt"]);
+        });
+    });
+
+    it("Should leave the existing file unchanged when the download fails", () => {
+
+        const content = new Readable({ read: () => null });
+        content.push("partial");
+        setTimeout(() => content.emit("error", Error("connection reset")), 10);
+
+        return fileSystem.writeFile(file, content, modified).then(() => {
+            throw Error("The write should have failed");
+        }, e => {
+            expect(e.message).to.eq("connection reset");
+            expect(fs.readFileSync(file, "utf8")).to.eq("existing");
+            expect(fs.readdirSync(directory)).to.deep.eq(["a.txt"]);
+        });
+    });
+});
@@ -0,0 +1,94 @@
+declare var require: (path: string) => any;
+const fs: any = require("fs");
+const os: any = require("os");
+const path: any = require("path");
+
+import { expect } from "chai";
+import { AuthToken, FileSystemTokenCacheManager, MemoryTokenCacheManager } from "../";
+
+/**
+ * Creates a token expiring the supplied number of seconds from now
+ */
+function createToken(access: string, expiresIn: number): AuthToken {
+    return {
+        access_token: access,
+        expires_in: `${expiresIn}`,
+        expires_on: `${Math.floor(Date.now() / 1000) + expiresIn}`,
+        not_before: "0",
+        resource: "https://contoso.sharepoint.com",
+        token_type: "Bearer",
+    };
+}
+
+describe("Token caches", () => {
+
+    describe("MemoryTokenCacheManager", () => {
+
+        it("Should return a token until it expires", () => {
+
+            const cache = new MemoryTokenCacheManager();
+            cache.setAccessToken("realm", "valid", createToken("valid", 3600));
+            cache.setAccessToken("realm", "expired", createToken("expired", -60));
+
+            expect(cache.getAccessToken("realm", "valid").access_token).to.eq("valid");
+            expect(cache.getAccessToken("realm", "expired")).to.be.undefined;
+            expect(cache.getAccessToken("other", "valid")).to.be.undefined;
+        });
+
+        it("Should remove expired tokens when a token is written", () => {
+
+            const cache = new MemoryTokenCacheManager();
+            cache.setAccessToken("realm", "expired", createToken("expired", -60));
+            cache.setAccessToken("realm", "valid", createToken("valid", 3600));
+
+            expect(Array.from((<any>cache).map.keys())).to.deep.eq(["realm:valid"]);
+        });
+    });
+
+    describe("FileSystemTokenCacheManager", () => {
+
+        let file: string;
+
+        beforeEach(() => {
+            file = path.join(os.tmpdir(), `pnp-tokens-${Date.now()}.json`);
+        });
+
+        afterEach(() => {
+            if (fs.existsSync(file)) {
+                fs.unlinkSync(file);
+            }
+        });
+
+        it("Should return a token until it expires, including from another instance", () => {
+
+            const cache = new FileSystemTokenCacheManager(file);
+            cache.setAccessToken("realm", "valid", createToken("valid", 3600));
+            cache.setAccessToken("realm", "expired", createToken("expired", -60));
+
+            const reopened = new FileSystemTokenCacheManager(file);
+            expect(reopened.getAccessToken("realm", "valid").access_token).to.eq("valid");
+            expect(reopened.getAccessToken("realm", "expired")).to.be.undefined;
+        });
+
+        it("Should remove expired tokens when a token is written, leaving other values in the file", () => {
+
+            fs.writeFileSync(file, JSON.stringify({
+                "other": "not json",
+                "pnp_token:realm:corrupt": "{",
+                "pnp_token:realm:expired": JSON.stringify(createToken("expired", -60)),
+                "settings": JSON.stringify({ expires_on: "0" }),
+            }));
+
+            const cache = new FileSystemTokenCacheManager(file);
+            cache.setAccessToken("realm", "valid", createToken("valid", 3600));
+
+            expect(Object.keys(JSON.parse(fs.readFileSync(file, "utf8"))).sort()).to.deep.eq([
+                "other",
+                "pnp_token:realm:corrupt",
+                "pnp_token:realm:valid",
+                "settings",
+            ]);
+            expect(cache.getAccessToken("realm", "corrupt")).to.be.undefined;
+        });
+    });
+});
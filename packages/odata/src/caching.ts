@@ -1,28 +1,59 @@
 import { ODataParser } from "./parsers";
-import { RuntimeConfig, dateAdd, PnPClientStore, PnPClientStorage } from "@pnp/common";
+import { RuntimeConfig, dateAdd, PnPClientStore, getClientStore, getClientStores, hOP, isFunc } from "@pnp/common";
+
+/**
+ * Determines how a cached value is used
+ *
+ * default: a cached value is returned and no request is sent
+ * stale-while-revalidate: a cached value is returned, once it is past its expiration the cache is also refreshed by a request sent in the background
+ * etag: the request is always sent with If-None-Match and the cached value is returned on a 304 response
+ */
+export type CachingMode = "default" | "stale-while-revalidate" | "etag";
 
 export interface ICachingOptions {
     expiration?: Date;
-    storeName?: "session" | "local";
-    key: string;
+    /**
+     * "session", "local" or the name of a store registered with registerClientStore
+     */
+    storeName?: string;
+    key?: string;
+    mode?: CachingMode;
 }
 
-export class CachingOptions implements ICachingOptions {
+/**
+ * The value stored in cache when using the stale-while-revalidate caching mode
+ */
+export interface StaleWhileRevalidateCacheEntry {
+    /**
+     * The time in milliseconds until which the value is fresh and returned without refreshing it
+     */
+    fresh: number;
+    value: any;
+}
 
-    protected static storage = new PnPClientStorage();
+/**
+ * The value stored in cache when using the etag caching mode
+ */
+export interface ETagCacheEntry {
+    etag: string | null;
+    value: any;
+}
+
+export class CachingOptions implements ICachingOptions {
 
     public expiration = dateAdd(new Date(), "second", RuntimeConfig.defaultCachingTimeoutSeconds);
 
-    public storeName: "session" | "local" = RuntimeConfig.defaultCachingStore;
+    public storeName: string = RuntimeConfig.defaultCachingStore;
+
+    public mode: CachingMode = "default";
 
     constructor(public key: string) { }
 
-    public get store(): PnPClientStore {
-        if (this.storeName === "local") {
-            return CachingOptions.storage.local;
-        } else {
-            return CachingOptions.storage.session;
-        }
+    /**
+     * The store selected by storeName, or null if no store is registered with that name
+     */
+    public get store(): PnPClientStore | null {
+        return getClientStore(this.storeName);
     }
 }
 
@@ -43,3 +74,90 @@ export class CachingParserWrapper<T> implements ODataParser<T> {
         return data;
     }
 }
+
+/**
+ * Caches the parsed value along with the time until which it is fresh. The entry stays in the store once it is stale so it can
+ * still be returned while it is refreshed, until a newer value replaces it
+ */
+export class StaleWhileRevalidateParserWrapper<T> extends CachingParserWrapper<T> {
+
+    protected cacheData(data: any): any {
+        if (this.cacheOptions.store !== null) {
+            const entry: StaleWhileRevalidateCacheEntry = { fresh: this.cacheOptions.expiration.getTime(), value: data };
+            this.cacheOptions.store.put(this.cacheOptions.key, entry, dateAdd(new Date(), "year", 1));
+        }
+        return data;
+    }
+}
+
+/**
+ * Caches the parsed value along with the response's ETag and resolves the cached value when the server responds 304 Not Modified
+ */
+export class ETagCachingParserWrapper<T> extends CachingParserWrapper<T> {
+
+    constructor(
+        parser: ODataParser<T>,
+        cacheOptions: CachingOptions,
+        public cached: ETagCacheEntry | null = null) {
+
+        super(parser, cacheOptions);
+    }
+
+    public parse(response: Response): Promise<T> {
+
+        if (response.status === 304 && this.cached !== null) {
+
+            // store the entry again so the expiration is extended
+            this.cacheData(this.cached);
+
+            let data = this.cached.value;
+            if (hOP(this.parser, "hydrate")) {
+                data = this.parser.hydrate(data);
+            }
+
+            return Promise.resolve(data);
+        }
+
+        return this.parser.parse(response).then(r => {
+            this.cacheData({ etag: response.headers.get("ETag"), value: r });
+            return r;
+        });
+    }
+}
+
+/**
+ * Removes from all stores any values cached using the default key (the request url) where that url is the supplied url or sits below it.
+ * Values cached using a custom key are not affected
+ *
+ * @param url The absolute url whose cached values should be removed
+ */
+export function invalidateCacheByUrl(url: string): void {
+
+    // the default cache key is the lower cased absolute url, we ignore any query as it sits below the path
+    const prefix = url.replace(/\?.*$/, "").toLowerCase();
+
+    getClientStores().forEach(store => {
+        if (store !== null && isFunc(store.deleteMatching)) {
+            store.deleteMatching!(key => isKeyAtOrBelow(key, prefix));
+        }
+    });
+}
+
+/**
+ * Determines if the supplied key is the prefix itself or sits below it, so that items(1) does not also match items(10)
+ *
+ * @param key The cache key to test
+ * @param prefix The lower cased url without its query
+ */
+function isKeyAtOrBelow(key: string, prefix: string): boolean {
+
+    if (key.indexOf(prefix) !== 0) {
+        return false;
+    }
+
+    if (key.length === prefix.length || /\/$/.test(prefix)) {
+        return true;
+    }
+
+    return ["/", "?", "("].indexOf(key.charAt(prefix.length)) > -1;
+}
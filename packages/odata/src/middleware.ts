@@ -0,0 +1,40 @@
+import { RuntimeConfig, isArray } from "@pnp/common";
+import { RequestContext } from "./pipeline";
+
+/**
+ * Defines hooks called at set stages of processing a request, each hook can read and modify the request context
+ */
+export interface RequestMiddleware {
+
+    /**
+     * Called before the request is sent or added to a batch, not called if the result was taken from cache
+     */
+    beforeSend?(context: RequestContext<any>): void | Promise<void>;
+
+    /**
+     * Called once the result is available. For requests not sent in a batch context.response holds the response, its body has been read
+     */
+    afterResponse?(context: RequestContext<any>): void | Promise<void>;
+
+    /**
+     * Called if processing the request fails, the request still rejects with the error unless the hook throws another
+     */
+    onError?(context: RequestContext<any>, error: any): void | Promise<void>;
+}
+
+export interface MiddlewareConfigurationPart {
+
+    /**
+     * Middleware applied to all requests, before any middleware added to a specific queryable
+     */
+    middleware?: RequestMiddleware[];
+}
+
+/**
+ * Gets the middleware applied to all requests through configuration
+ */
+export function getGlobalMiddleware(): RequestMiddleware[] {
+
+    const middleware = RuntimeConfig.get("middleware");
+    return isArray(middleware) ? middleware : [];
+}
@@ -1,4 +1,6 @@
 export * from "./caching";
+export * from "./middleware";
+export * from "./paging";
 export * from "./parsers";
 export * from "./pipeline";
 export * from "./queryable";
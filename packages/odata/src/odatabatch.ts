@@ -1,4 +1,4 @@
-import { FetchOptions, getGUID } from "@pnp/common";
+import { FetchOptions, getGUID, isAborted, CancellationError } from "@pnp/common";
 import { ODataParser } from "./parsers";
 
 export interface ODataBatchRequestInfo {
@@ -16,17 +16,26 @@ export abstract class ODataBatch {
     protected _deps: Promise<void>[];
     protected _reqs: ODataBatchRequestInfo[];
     protected _rDeps: Promise<void>[];
+    protected _signal: AbortSignal | null;
 
     constructor(private _batchId = getGUID()) {
         this._reqs = [];
         this._deps = [];
         this._rDeps = [];
+        this._signal = null;
     }
 
     public get batchId(): string {
         return this._batchId;
     }
 
+    /**
+     * The signal supplied to execute, used to cancel sending the batch
+     */
+    protected get signal(): AbortSignal | null {
+        return this._signal;
+    }
+
     /**
      * The requests contained in this batch
      */
@@ -91,15 +100,34 @@ export abstract class ODataBatch {
     /**
      * Execute the current batch and resolve the associated promises
      *
+     * @param signal Optional, if aborted before the batch completes the batch and all of its requests reject with a CancellationError
      * @returns A promise which will be resolved once all of the batch's child promises have resolved
      */
-    public execute(): Promise<void> {
+    public execute(signal?: AbortSignal): Promise<void> {
+
+        this._signal = signal || null;
 
         // we need to check the dependencies twice due to how different engines handle things.
         // We can get a second set of promises added during the first set resolving
         return Promise.all(this._deps)
             .then(() => Promise.all(this._deps))
-            .then(() => this.executeImpl())
+            .then(() => {
+                if (isAborted(this._signal)) {
+                    throw new CancellationError();
+                }
+                return this.executeImpl();
+            })
+            .catch(e => {
+
+                if (isAborted(this._signal)) {
+                    // the requests will never receive a response so we reject them
+                    const err = new CancellationError();
+                    this._reqs.forEach(r => r.reject(err));
+                    throw err;
+                }
+
+                throw e;
+            })
             .then(() => Promise.all(this._rDeps))
             .then(() => void (0));
     }
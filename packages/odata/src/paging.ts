@@ -0,0 +1,182 @@
+import { hOP, isAborted, CancellationError, stringIsNullOrEmpty } from "@pnp/common";
+import { ODataParserBase } from "./parsers";
+
+/**
+ * A single page of results read from a collection
+ */
+export interface ODataPage<T = any> {
+
+    /**
+     * The results contained in this page
+     */
+    results: T[];
+
+    /**
+     * The url of the next page, null if this is the last page. Store this value to resume paging later
+     */
+    nextUrl: string | null;
+}
+
+export interface PagingOptions {
+
+    /**
+     * The url of a page from an earlier iteration, paging starts from this page instead of the first
+     */
+    nextUrl?: string;
+
+    /**
+     * Stops paging when aborted, the next page is rejected with a CancellationError
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Gets the url of the next page from a verbose, minimal or nometadata response, null if there is none
+ *
+ * @param json The parsed response body
+ */
+export function getNextLink(json: any): string | null {
+
+    let link: string = null;
+
+    if (hOP(json, "d") && hOP(json.d, "__next")) {
+        link = json.d.__next;
+    } else if (hOP(json, "@odata.nextLink")) {
+        link = json["@odata.nextLink"];
+    } else if (hOP(json, "odata.nextLink")) {
+        link = json["odata.nextLink"];
+    }
+
+    return stringIsNullOrEmpty(link) ? null : link;
+}
+
+/**
+ * Parses a response into a page of results along with the url of the next page
+ */
+export class ODataPageParser<T = any> extends ODataParserBase<ODataPage<T>> {
+
+    protected parseImpl(r: Response, resolve: (value?: ODataPage<T>) => void, reject: (reason?: Error) => void): void {
+
+        r.text()
+            .then(txt => txt.replace(/\s/ig, "").length > 0 ? JSON.parse(txt) : {})
+            .then(json => {
+                const results = this.parseODataJSON<T[]>(json);
+                resolve({
+                    nextUrl: getNextLink(json),
+                    results: Array.isArray(results) ? results : [],
+                });
+            })
+            .catch(e => reject(e));
+    }
+}
+
+/**
+ * Adds the async iterator symbol to the supplied iterator, where the environment defines it, so it can be used with for await
+ *
+ * @param iterator The iterator to extend
+ */
+export function asAsyncIterable<T>(iterator: AsyncIterator<T>): AsyncIterableIterator<T> {
+
+    if (typeof Symbol === "function" && typeof Symbol.asyncIterator === "symbol") {
+        (<any>iterator)[Symbol.asyncIterator] = () => iterator;
+    }
+
+    return <AsyncIterableIterator<T>>iterator;
+}
+
+/**
+ * Makes the instances of a class usable with for await, where the environment defines Symbol.asyncIterator. The symbol is not read in other
+ * environments, such as IE11, so the module defining the class can still be loaded there
+ *
+ * @param target The class whose instances are made iterable
+ * @param iterate Creates the iterator for an instance
+ */
+export function defineAsyncIterator<T>(target: { prototype: T }, iterate: (instance: T) => AsyncIterator<any>): void {
+
+    if (typeof Symbol === "function" && typeof Symbol.asyncIterator === "symbol") {
+        (<any>target.prototype)[Symbol.asyncIterator] = function (this: T) {
+            return iterate(this);
+        };
+    }
+}
+
+/**
+ * Creates an async iterator which loads each page in turn until there are no more or the signal is aborted
+ *
+ * @param load Loads the page found at the supplied url, or the first page when the url is null
+ * @param options Allows paging to be resumed from a stored url and cancelled
+ */
+export function iteratePages<T>(load: (nextUrl: string | null) => Promise<ODataPage<T>>, options: PagingOptions = {}): AsyncIterableIterator<ODataPage<T>> {
+
+    let nextUrl = stringIsNullOrEmpty(options.nextUrl) ? null : options.nextUrl;
+    let started = false;
+    let finished = false;
+
+    const done = (): Promise<IteratorResult<ODataPage<T>>> => {
+        finished = true;
+        return Promise.resolve({ done: true, value: <ODataPage<T>>undefined });
+    };
+
+    return asAsyncIterable({
+
+        next: (): Promise<IteratorResult<ODataPage<T>>> => {
+
+            if (finished || (started && nextUrl === null)) {
+                return done();
+            }
+
+            if (isAborted(options.signal)) {
+                finished = true;
+                return Promise.reject(new CancellationError());
+            }
+
+            started = true;
+
+            return load(nextUrl).then(page => {
+                nextUrl = page.nextUrl;
+                return { done: false, value: page };
+            }, e => {
+                finished = true;
+                throw e;
+            });
+        },
+
+        // called when a for await loop exits early
+        return: done,
+    });
+}
+
+/**
+ * Creates an async iterator over the individual results of each page
+ *
+ * @param pages The pages to read
+ */
+export function iterateResults<T>(pages: AsyncIterator<ODataPage<T>>): AsyncIterableIterator<T> {
+
+    let buffer: T[] = [];
+
+    const next = (): Promise<IteratorResult<T>> => {
+
+        if (buffer.length > 0) {
+            return Promise.resolve({ done: false, value: buffer.shift() });
+        }
+
+        return pages.next().then(r => {
+
+            if (r.done) {
+                return { done: true, value: <T>undefined };
+            }
+
+            buffer = r.value.results.slice();
+            return next();
+        });
+    };
+
+    return asAsyncIterable({
+        next,
+        return: (): Promise<IteratorResult<T>> => {
+            buffer = [];
+            return Promise.resolve(typeof pages.return === "function" ? pages.return() : null).then(() => ({ done: true, value: <T>undefined }));
+        },
+    });
+}
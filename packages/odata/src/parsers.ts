@@ -1,3 +1,4 @@
+declare var require: (path: string) => any;
 import { isFunc, hOP } from "@pnp/common";
 
 export interface ODataParser<T> {
@@ -126,3 +127,134 @@ export class LambdaParser<T = any> extends ODataParserBase<T> {
         this.parser(r).then(resolve);
     }
 }
+
+/**
+ * A Node.js readable stream, described by the members we use so the libraries don't depend on the node typings
+ */
+export interface NodeReadableStream {
+    on(event: string, listener: (...args: any[]) => void): any;
+    pause(): any;
+    resume(): any;
+    pipe(destination: any, options?: any): any;
+}
+
+/**
+ * The body of a response, a WHATWG ReadableStream in the browser or a Node.js readable stream in node
+ */
+export type ResponseStream = ReadableStream | NodeReadableStream;
+
+export interface StreamProgressData {
+
+    /**
+     * The number of bytes read, including any before the start of the requested range
+     */
+    loaded: number;
+
+    /**
+     * The size of the content in bytes, null if the response doesn't include it
+     */
+    total: number | null;
+}
+
+export interface StreamOptions {
+
+    /**
+     * The position of the first byte to read, used to resume a download, default: 0
+     */
+    start?: number;
+
+    /**
+     * The position of the last byte to read, default: the end of the content
+     */
+    end?: number;
+
+    /**
+     * Called each time a part of the content is read
+     */
+    progress?: (data: StreamProgressData) => void;
+}
+
+/**
+ * Gets the value of the Range header requesting the part of the content described by the supplied options, null when all of it is requested
+ *
+ * @param options The range to request
+ */
+export function getRangeHeader(options: StreamOptions = {}): string | null {
+
+    const start = options.start || 0;
+    const hasEnd = typeof options.end === "number";
+
+    return start > 0 || hasEnd ? `bytes=${start}-${hasEnd ? options.end : ""}` : null;
+}
+
+/**
+ * Resolves with the body of the response as a stream, reporting progress as it is read
+ */
+export class StreamParser extends ODataParserBase<ResponseStream> {
+
+    constructor(private _options: StreamOptions = {}) {
+        super();
+    }
+
+    protected parseImpl(r: Response, resolve: (value: any) => void, reject: (reason?: Error) => void): void {
+
+        const start = this._options.start || 0;
+
+        // a server ignoring the range sends the whole content, which would corrupt a resumed download
+        if (start > 0 && r.status !== 206) {
+            reject(Error(`The requested range was not returned, the response status was [${r.status}] ${r.statusText}`));
+            return;
+        }
+
+        const body: any = r.body;
+        const progress = this._options.progress;
+
+        if (!isFunc(progress)) {
+            resolve(body);
+            return;
+        }
+
+        const range = /\/(\d+)\s*$/.exec(r.headers.get("Content-Range") || "");
+        const length = r.headers.get("Content-Length");
+        const total = range !== null ? parseInt(range[1], 10) : length !== null ? start + parseInt(length, 10) : null;
+        let loaded = start;
+
+        const report = (count: number) => {
+            loaded += count;
+            progress({ loaded, total });
+        };
+
+        if (isFunc(body.getReader)) {
+
+            const reader = body.getReader();
+
+            // the dom typings we compile against don't describe the ReadableStream constructor's source argument
+            resolve(new (<any>ReadableStream)({
+                cancel: (reason: any) => reader.cancel(reason),
+                pull: (controller: any) => reader.read().then((result: { done: boolean, value: Uint8Array }) => {
+                    if (result.done) {
+                        controller.close();
+                    } else {
+                        report(result.value.byteLength);
+                        controller.enqueue(result.value);
+                    }
+                }),
+            }));
+
+        } else {
+
+            // we count the bytes as they pass through a transform, so the caller still controls how the stream flows. stream is only
+            // loaded here as node streams are only returned in node
+            const { Transform } = require("stream");
+            const counter = new Transform({
+                transform: (chunk: any, _: string, callback: (err: Error | null, chunk: any) => void) => {
+                    report(chunk.length);
+                    callback(null, chunk);
+                },
+            });
+
+            body.on("error", (e: Error) => counter.emit("error", e));
+            resolve(body.pipe(counter));
+        }
+    }
+}
@@ -1,8 +1,30 @@
-import { FetchOptions, RequestClient, extend, isFunc, hOP } from "@pnp/common";
-import { LogLevel, Logger } from "@pnp/logging";
-import { CachingOptions, CachingParserWrapper, ICachingOptions } from "./caching";
+import {
+    FetchOptions,
+    RequestClient,
+    RuntimeConfig,
+    CancellationError,
+    extend,
+    getRetryCount,
+    isAborted,
+    isArray,
+    isFunc,
+    hOP,
+    mergeHeaders,
+    objectDefinedNotNull,
+} from "@pnp/common";
+import { LogLevel, Logger, LogFields } from "@pnp/logging";
+import {
+    CachingOptions,
+    CachingParserWrapper,
+    ETagCachingParserWrapper,
+    ETagCacheEntry,
+    ICachingOptions,
+    StaleWhileRevalidateCacheEntry,
+    StaleWhileRevalidateParserWrapper,
+} from "./caching";
+import { RequestMiddleware } from "./middleware";
 import { ODataBatch } from "./odatabatch";
-import { ODataParser } from "./parsers";
+import { ODataParser, StreamParser } from "./parsers";
 
 export type PipelineMethod<T> = (c: RequestContext<T>) => Promise<RequestContext<T>>;
 
@@ -13,19 +35,67 @@ export interface RequestContext<T> {
     batch: ODataBatch;
     batchDependency: () => void;
     cachingOptions: ICachingOptions;
+    cacheHit?: boolean;
     hasResult?: boolean;
     isBatched: boolean;
     isCached: boolean;
+    middleware?: RequestMiddleware[];
     options: FetchOptions;
     parser: ODataParser<T>;
     pipeline: PipelineMethod<T>[];
     requestAbsoluteUrl: string;
     requestId: string;
+    response?: Response;
     result?: T;
     verb: string;
     clientFactory: () => RequestClient;
 }
 
+/**
+ * Scoped loggers for the entries written by the pipeline and its caching
+ */
+const pipelineLogger = Logger.scope("odata.pipeline");
+const cachingLogger = Logger.scope("odata.caching");
+
+/**
+ * Gets the structured log fields describing the supplied request
+ *
+ * @param context The current request context
+ */
+function getLogFields<T>(context: RequestContext<T>): LogFields {
+
+    const fields: LogFields = {
+        requestId: context.requestId,
+        url: context.requestAbsoluteUrl,
+        verb: context.verb,
+    };
+
+    if (context.isBatched && objectDefinedNotNull(context.batch)) {
+        fields.batchId = context.batch.batchId;
+    }
+
+    return fields;
+}
+
+/**
+ * Logs a message about the supplied request, including the request's structured fields
+ *
+ * @param context The current request context
+ * @param message The message to log
+ * @param level The level of the entry
+ * @param data Optional data to include with the entry
+ * @param logger The scope to which the entry is written, default: odata.pipeline
+ */
+function log<T>(context: RequestContext<T>, message: string, level: LogLevel, data?: any, logger = pipelineLogger): void {
+
+    logger.log({
+        data: data,
+        fields: getLogFields(context),
+        level: level,
+        message: `[${context.requestId}] (${(new Date()).getTime()}) ${message}`,
+    });
+}
+
 /**
  * Resolves the context's result value
  *
@@ -33,11 +103,7 @@ export interface RequestContext<T> {
  */
 function returnResult<T>(context: RequestContext<T>): Promise<T> {
 
-    Logger.log({
-        data: Logger.activeLogLevel === LogLevel.Verbose ? context.result : {},
-        level: LogLevel.Info,
-        message: `[${context.requestId}] (${(new Date()).getTime()}) Returning result from pipeline. Set logging to verbose to see data.`,
-    });
+    log(context, `Returning result from pipeline. Set logging to verbose to see data.`, LogLevel.Info, pipelineLogger.activeLogLevel === LogLevel.Verbose ? context.result : {});
 
     return Promise.resolve(context.result!);
 }
@@ -69,6 +135,161 @@ function next<T>(c: RequestContext<T>): Promise<RequestContext<T>> {
     }
 }
 
+/**
+ * The GET requests currently in flight, tracked when request deduplication is enabled
+ */
+const inFlight = new Map<string, { parsers: Function[], promise: Promise<any>, requestId: string }[]>();
+
+/**
+ * Gets the types of the supplied parser and of each parser it wraps, so requests whose caching wraps different parsers are not shared
+ *
+ * @param parser The parser of the request
+ */
+function getParserTypes(parser: ODataParser<any>): Function[] {
+
+    const types = [parser.constructor];
+
+    if (parser instanceof CachingParserWrapper) {
+        return types.concat(getParserTypes(parser.parser));
+    }
+
+    return types;
+}
+
+/**
+ * Gives each caller sharing a request its own copy of a parsed json result, so one caller changing it does not affect the others.
+ * Other results, such as blobs, buffers and objects created by the parser, are shared
+ *
+ * @param value The parsed result
+ */
+function copyResult(value: any): any {
+
+    const isPlain = isArray(value) || (objectDefinedNotNull(value) && Object.getPrototypeOf(value) === Object.prototype);
+
+    return isPlain ? JSON.parse(JSON.stringify(value)) : value;
+}
+
+/**
+ * Shares the result of an identical GET request already in flight (same url, headers and parser types), otherwise sends the request
+ *
+ * @param context The current request context
+ * @param send Function sending the request and parsing the response
+ */
+function sendDeduplicated<T>(context: RequestContext<T>, send: () => Promise<T>): Promise<T> {
+
+    const headers = new Headers();
+    mergeHeaders(headers, (context.options || {}).headers);
+    const headerParts: string[] = [];
+    headers.forEach((value: string, name: string) => headerParts.push(`${name}:${value}`));
+    const key = `${context.requestAbsoluteUrl}|${headerParts.sort().join("|")}`;
+
+    const parsers = getParserTypes(context.parser);
+    const entries = inFlight.get(key) || [];
+    const existing = entries.filter(e => e.parsers.length === parsers.length && e.parsers.every((p, i) => p === parsers[i]));
+
+    if (existing.length > 0) {
+        log(context, `Sharing result of in-flight request ${existing[0].requestId}.`, LogLevel.Info);
+        return existing[0].promise.then(copyResult);
+    }
+
+    const entry = { parsers, promise: <Promise<any>>null, requestId: context.requestId };
+
+    const remove = () => {
+        const current = (inFlight.get(key) || []).filter(e => e !== entry);
+        if (current.length > 0) {
+            inFlight.set(key, current);
+        } else {
+            inFlight.delete(key);
+        }
+    };
+
+    entry.promise = send().then(r => {
+        remove();
+        return r;
+    }).catch(e => {
+        remove();
+        throw e;
+    });
+
+    inFlight.set(key, entries.concat(entry));
+
+    return entry.promise.then(copyResult);
+}
+
+/**
+ * The stores and keys of the cached values currently being refreshed in the background
+ */
+const revalidating = new Set<string>();
+
+/**
+ * Sends a copy of the supplied request outside of any batch, refreshing the cached value once the response is parsed.
+ * Only one refresh of a cached value is sent at a time
+ *
+ * @param context The context of the request being answered from cache
+ * @param cacheOptions The options used to store the refreshed value
+ */
+function revalidate<T>(context: RequestContext<T>, cacheOptions: CachingOptions): void {
+
+    const key = `${cacheOptions.storeName}|${cacheOptions.key}`;
+
+    if (revalidating.has(key)) {
+        log(context, `Cached value is already being refreshed.`, LogLevel.Verbose, undefined, cachingLogger);
+        return;
+    }
+
+    log(context, `Refreshing cached value in the background.`, LogLevel.Info, undefined, cachingLogger);
+
+    const refresh: RequestContext<T> = extend(extend({}, context), {
+        hasResult: false,
+        isBatched: false,
+        parser: new StaleWhileRevalidateParserWrapper(context.parser, cacheOptions),
+        pipeline: [],
+    });
+
+    revalidating.add(key);
+
+    PipelineMethods.send(refresh).catch(e => {
+        log(context, `Background refresh of cached value failed: ${e.message}`, LogLevel.Warning, undefined, cachingLogger);
+    }).then(() => revalidating.delete(key));
+}
+
+/**
+ * Reads a value cached in stale-while-revalidate mode, a value stored in another mode is treated as stale
+ *
+ * @param data The value read from the store
+ */
+function readStaleWhileRevalidateEntry(data: any): StaleWhileRevalidateCacheEntry {
+    return hOP(data, "fresh") && hOP(data, "value") ? data : { fresh: 0, value: data };
+}
+
+/**
+ * Calls a hook of each of the context's middleware in turn, waiting for any promise returned
+ *
+ * @param context The current request context
+ * @param invoke Function calling the hook of the supplied middleware
+ */
+function invokeMiddleware<T>(context: RequestContext<T>, invoke: (m: RequestMiddleware) => void | Promise<void>): Promise<void> {
+    return (context.middleware || []).reduce((chain, m) => chain.then(() => invoke(m)), Promise.resolve());
+}
+
+/**
+ * Calls the afterResponse hook of the context's middleware once the result is available
+ *
+ * @param context The current request context
+ */
+function afterResponse<T>(context: RequestContext<T>): Promise<RequestContext<T>> {
+
+    if (!isArray(context.middleware) || context.middleware.length < 1) {
+        return Promise.resolve(context);
+    }
+
+    // batched requests carry the batch's promise as their result until the batch is executed
+    return Promise.resolve(context.result).then(result => {
+        context.result = result;
+        return invokeMiddleware(context, m => isFunc(m.afterResponse) ? m.afterResponse(context) : null);
+    }).then(() => context);
+}
+
 /**
  * Executes the current request context's pipeline
  *
@@ -77,12 +298,50 @@ function next<T>(c: RequestContext<T>): Promise<RequestContext<T>> {
 export function pipe<T>(context: RequestContext<T>): Promise<T> {
 
     if (context.pipeline.length < 1) {
-        Logger.write(`[${context.requestId}] (${(new Date()).getTime()}) Request pipeline contains no methods!`, LogLevel.Warning);
+        log(context, `Request pipeline contains no methods!`, LogLevel.Warning);
     }
 
-    const promise = next(context).then(ctx => returnResult(ctx)).catch((e: Error) => {
-        Logger.error(e);
-        throw e;
+    const start = (new Date()).getTime();
+
+    pipelineLogger.log({
+        fields: getLogFields(context),
+        level: LogLevel.Info,
+        message: `[${context.requestId}] (${start}) Request span started.`,
+        span: "start",
+    });
+
+    // logs the end of the request's span with the outcome, allowing listeners to record timings
+    const end = (error?: Error) => {
+
+        const fields = getLogFields(context);
+        fields.duration = (new Date()).getTime() - start;
+        fields.cacheHit = context.cacheHit === true || (objectDefinedNotNull(context.response) && context.response.status === 304);
+        fields.retryCount = getRetryCount(context.response);
+
+        if (objectDefinedNotNull(context.response)) {
+            fields.status = context.response.status;
+        } else if (objectDefinedNotNull(error) && typeof (<any>error).status === "number") {
+            fields.status = (<any>error).status;
+        }
+
+        pipelineLogger.log({
+            data: error,
+            fields: fields,
+            level: LogLevel.Info,
+            message: `[${context.requestId}] (${(new Date()).getTime()}) Request span ended${error ? " with an error" : ""}.`,
+            span: "end",
+        });
+    };
+
+    const promise = next(context).then(ctx => afterResponse(ctx)).then(ctx => returnResult(ctx)).then(result => {
+        end();
+        return result;
+    }).catch((e: Error) => {
+        end(e);
+        pipelineLogger.error(e);
+        return invokeMiddleware(context, m => isFunc(m.onError) ? m.onError(context, e) : null).then(() => {
+            throw e;
+        });
     });
 
     if (context.isBatched) {
@@ -106,12 +365,12 @@ export function requestPipelineMethod(alwaysRun = false) {
 
             // if we have a result already in the pipeline, pass it along and don't call the tagged method
             if (!alwaysRun && args.length > 0 && hOP(args[0], "hasResult") && args[0].hasResult) {
-                Logger.write(`[${args[0].requestId}] (${(new Date()).getTime()}) Skipping request pipeline method ${propertyKey}, existing result in pipeline.`, LogLevel.Verbose);
+                log(args[0], `Skipping request pipeline method ${propertyKey}, existing result in pipeline.`, LogLevel.Verbose);
                 return Promise.resolve(args[0]);
             }
 
             // apply the tagged method
-            Logger.write(`[${args[0].requestId}] (${(new Date()).getTime()}) Calling request pipeline method ${propertyKey}.`, LogLevel.Verbose);
+            log(args[0], `Calling request pipeline method ${propertyKey}.`, LogLevel.Verbose);
 
             // then chain the next method in the context's pipeline - allows for dynamic pipeline
             return method.apply(target, args).then((ctx: RequestContext<any>) => next(ctx));
@@ -131,11 +390,7 @@ export class PipelineMethods {
     public static logStart<T>(context: RequestContext<T>): Promise<RequestContext<T>> {
         return new Promise<RequestContext<T>>(resolve => {
 
-            Logger.log({
-                data: Logger.activeLogLevel === LogLevel.Info ? {} : context,
-                level: LogLevel.Info,
-                message: `[${context.requestId}] (${(new Date()).getTime()}) Beginning ${context.verb} request (${context.requestAbsoluteUrl})`,
-            });
+            log(context, `Beginning ${context.verb} request (${context.requestAbsoluteUrl})`, LogLevel.Info, pipelineLogger.activeLogLevel === LogLevel.Info ? {} : context);
 
             resolve(context);
         });
@@ -149,10 +404,16 @@ export class PipelineMethods {
 
         return new Promise<RequestContext<T>>(resolve => {
 
+            // a stream can only be read once, so it is never cached
+            if (context.isCached && context.parser instanceof StreamParser) {
+                log(context, `Streams are not cached, skipping cache.`, LogLevel.Warning, undefined, cachingLogger);
+                return resolve(context);
+            }
+
             // handle caching, if applicable
             if (context.isCached) {
 
-                Logger.write(`[${context.requestId}] (${(new Date()).getTime()}) Caching is enabled for request, checking cache...`, LogLevel.Info);
+                log(context, `Caching is enabled for request, checking cache...`, LogLevel.Info, undefined, cachingLogger);
 
                 let cacheOptions = new CachingOptions(context.requestAbsoluteUrl.toLowerCase());
                 if (context.cachingOptions !== undefined) {
@@ -160,38 +421,74 @@ export class PipelineMethods {
                 }
 
                 // we may not have a valid store
-                if (cacheOptions.store !== null) {
-                    // check if we have the data in cache and if so resolve the promise and return
-                    let data = cacheOptions.store.get(cacheOptions.key);
-                    if (data !== null) {
-                        // ensure we clear any held batch dependency we are resolving from the cache
-                        Logger.log({
-                            data: Logger.activeLogLevel === LogLevel.Info ? {} : data,
-                            level: LogLevel.Info,
-                            message: `[${context.requestId}] (${(new Date()).getTime()}) Value returned from cache.`,
-                        });
-                        if (isFunc(context.batchDependency)) {
-                            context.batchDependency();
-                        }
-                        // handle the case where a parser needs to take special actions with a cached result
-                        if (hOP(context.parser, "hydrate")) {
-                            data = context.parser.hydrate(data);
+                if (cacheOptions.store === null) {
+                    log(context, `Caching store "${cacheOptions.storeName}" not found, skipping cache.`, LogLevel.Warning, undefined, cachingLogger);
+                    return resolve(context);
+                }
+
+                // check if we have the data in cache and if so resolve the promise and return
+                let data = cacheOptions.store.get(cacheOptions.key);
+
+                if (cacheOptions.mode === "etag") {
+
+                    // in etag mode the request is always sent, the server tells us if the cached value is still current
+                    const entry: ETagCacheEntry | null = data;
+                    if (entry !== null && objectDefinedNotNull(entry.etag)) {
+
+                        log(context, `Value found in cache, sending conditional request.`, LogLevel.Info, undefined, cachingLogger);
+
+                        const headers = new Headers();
+                        mergeHeaders(headers, (context.options || {}).headers);
+                        headers.set("If-None-Match", entry.etag);
+                        context.options = extend(context.options || {}, { headers: headers });
+                    }
+
+                    context.parser = new ETagCachingParserWrapper(context.parser, cacheOptions, entry);
+                    return resolve(context);
+                }
+
+                if (data !== null) {
+                    // ensure we clear any held batch dependency we are resolving from the cache
+                    log(context, `Value returned from cache.`, LogLevel.Info, cachingLogger.activeLogLevel === LogLevel.Info ? {} : data, cachingLogger);
+                    context.cacheHit = true;
+                    if (isFunc(context.batchDependency)) {
+                        context.batchDependency();
+                    }
+                    if (cacheOptions.mode === "stale-while-revalidate") {
+                        const entry = readStaleWhileRevalidateEntry(data);
+                        data = entry.value;
+                        if (entry.fresh <= (new Date()).getTime()) {
+                            revalidate(context, cacheOptions);
                         }
-                        return setResult(context, data).then(ctx => resolve(ctx));
                     }
+                    // handle the case where a parser needs to take special actions with a cached result
+                    if (hOP(context.parser, "hydrate")) {
+                        data = context.parser.hydrate(data);
+                    }
+                    return setResult(context, data).then(ctx => resolve(ctx));
                 }
 
-                Logger.write(`[${context.requestId}] (${(new Date()).getTime()}) Value not found in cache.`, LogLevel.Info);
+                log(context, `Value not found in cache.`, LogLevel.Info, undefined, cachingLogger);
 
                 // if we don't then wrap the supplied parser in the caching parser wrapper
                 // and send things on their way
-                context.parser = new CachingParserWrapper(context.parser, cacheOptions);
+                context.parser = cacheOptions.mode === "stale-while-revalidate" ?
+                    new StaleWhileRevalidateParserWrapper(context.parser, cacheOptions) :
+                    new CachingParserWrapper(context.parser, cacheOptions);
             }
 
             return resolve(context);
         });
     }
 
+    /**
+     * Calls the beforeSend hook of the context's middleware
+     */
+    @requestPipelineMethod()
+    public static beforeSend<T>(context: RequestContext<T>): Promise<RequestContext<T>> {
+        return invokeMiddleware(context, m => isFunc(m.beforeSend) ? m.beforeSend(context) : null).then(() => context);
+    }
+
     /**
      * Sends the request
      */
@@ -210,23 +507,41 @@ export class PipelineMethods {
                     context.batchDependency();
                 }
 
-                Logger.write(`[${context.requestId}] (${(new Date()).getTime()}) Batching request in batch ${context.batch.batchId}.`, LogLevel.Info);
+                log(context, `Batching request in batch ${context.batch.batchId}.`, LogLevel.Info);
 
                 // we set the result as the promise which will be resolved by the batch's execution
                 resolve(setResult(context, p));
 
             } else {
 
-                Logger.write(`[${context.requestId}] (${(new Date()).getTime()}) Sending request.`, LogLevel.Info);
+                const signal = (context.options || {}).signal;
+
+                if (isAborted(signal)) {
+                    log(context, `Request cancelled before sending.`, LogLevel.Info);
+                    return reject(new CancellationError());
+                }
+
+                log(context, `Sending request.`, LogLevel.Info);
 
                 // we are not part of a batch, so proceed as normal
-                const client = context.clientFactory();
-                const opts = extend(context.options || {}, { method: context.verb });
-                client.fetch(context.requestAbsoluteUrl, opts)
-                    .then(response => context.parser.parse(response))
-                    .then(result => setResult(context, result))
+                const sendRequest = () => {
+                    const client = context.clientFactory();
+                    const opts = extend(context.options || {}, { method: context.verb });
+                    return client.fetch(context.requestAbsoluteUrl, opts).then(response => {
+                        context.response = response;
+                        return context.parser.parse(response);
+                    });
+                };
+
+                // a request with its own signal is never shared as aborting it would cancel the request for everyone
+                // nor is a stream, which can only be read once
+                const dedupe = RuntimeConfig.enableRequestDeduplication && /^get$/i.test(context.verb) && !objectDefinedNotNull(signal)
+                    && !(context.parser instanceof StreamParser);
+                const p = dedupe ? sendDeduplicated(context, sendRequest) : sendRequest();
+
+                p.then(result => setResult(context, result))
                     .then(ctx => resolve(ctx))
-                    .catch(e => reject(e));
+                    .catch(e => reject(isAborted(signal) ? new CancellationError() : e));
             }
         });
     }
@@ -241,19 +556,12 @@ export class PipelineMethods {
 
             if (context.isBatched) {
 
-                Logger.log({
-                    data: Logger.activeLogLevel === LogLevel.Info ? {} : context,
-                    level: LogLevel.Info,
-                    message: `[${context.requestId}] (${(new Date()).getTime()}) ${context.verb} request will complete in batch ${context.batch.batchId}.`,
-                });
+                log(context, `${context.verb} request will complete in batch ${context.batch.batchId}.`, LogLevel.Info,
+                    pipelineLogger.activeLogLevel === LogLevel.Info ? {} : context);
 
             } else {
 
-                Logger.log({
-                    data: Logger.activeLogLevel === LogLevel.Info ? {} : context,
-                    level: LogLevel.Info,
-                    message: `[${context.requestId}] (${(new Date()).getTime()}) Completing ${context.verb} request.`,
-                });
+                log(context, `Completing ${context.verb} request.`, LogLevel.Info, pipelineLogger.activeLogLevel === LogLevel.Info ? {} : context);
             }
 
             resolve(context);
@@ -265,6 +573,7 @@ export function getDefaultPipeline() {
     return [
         PipelineMethods.logStart,
         PipelineMethods.caching,
+        PipelineMethods.beforeSend,
         PipelineMethods.send,
         PipelineMethods.logEnd,
     ].slice(0);
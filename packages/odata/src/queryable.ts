@@ -8,7 +8,8 @@ import {
     isArray,
 } from "@pnp/common";
 import { ODataParser, ODataDefaultParser, JSONParser } from "./parsers";
-import { ICachingOptions } from "./caching";
+import { ICachingOptions, invalidateCacheByUrl } from "./caching";
+import { RequestMiddleware, getGlobalMiddleware } from "./middleware";
 import { ODataBatch } from "./odatabatch";
 import {
     RequestContext,
@@ -64,6 +65,11 @@ export abstract class Queryable<GetType> {
      */
     protected _requestPipeline: PipelineMethod<any>[] | null;
 
+    /**
+     * Middleware applied to requests made by this instance and those derived from it
+     */
+    protected _middleware: RequestMiddleware[];
+
     constructor() {
         this._query = new Map<string, string>();
         this._options = {};
@@ -74,6 +80,7 @@ export abstract class Queryable<GetType> {
         this._cloneParentWasCaching = false;
         this._cloneParentCacheOptions = null;
         this._requestPipeline = null;
+        this._middleware = [];
     }
 
     /**
@@ -125,6 +132,7 @@ export abstract class Queryable<GetType> {
      */
     public configureFrom(o: Queryable<any>): this {
         mergeOptions(this._options, o._options);
+        this.withMiddleware(...(o._middleware || []));
         return this;
     }
 
@@ -143,6 +151,13 @@ export abstract class Queryable<GetType> {
         return this;
     }
 
+    /**
+     * Removes any cached values for this url, or any url below it, from all stores. Values cached using a custom key are not affected
+     */
+    public invalidateCache(): Promise<void> {
+        return this.toRequestContext("GET", {}, new JSONParser(), []).then(context => invalidateCacheByUrl(context.requestAbsoluteUrl));
+    }
+
     /**
      * Allows you to set a request specific processing pipeline
      * 
@@ -153,6 +168,16 @@ export abstract class Queryable<GetType> {
         return this;
     }
 
+    /**
+     * Adds middleware applied to requests made by this instance and all derived objects accessible via chaining
+     *
+     * @param middleware One or more middleware, applied after any configured globally
+     */
+    public withMiddleware(...middleware: RequestMiddleware[]): this {
+        this._middleware = this._middleware.concat(middleware.filter(m => this._middleware.indexOf(m) < 0));
+        return this;
+    }
+
     protected getCore<T = GetType>(parser: ODataParser<T> = new JSONParser(), options: FetchOptions = {}): Promise<T> {
         // Fix for #304 - when we clone objects we in some cases then execute a get request
         // in these cases the caching settings were getting dropped from the request
@@ -184,7 +209,10 @@ export abstract class Queryable<GetType> {
     protected reqImpl<T>(method: string, options: FetchOptions = {}, parser: ODataParser<T>): Promise<T> {
         return this.getRequestPipeline<T>(method, options, parser)
             .then(pipeline => this.toRequestContext<T>(method, options, parser, pipeline))
-            .then(context => pipe(context));
+            .then(context => {
+                context.middleware = getGlobalMiddleware().concat(this._middleware);
+                return pipe(context);
+            });
     }
 
     /**
@@ -1,8 +1,9 @@
 import { LibraryConfiguration, RuntimeConfig } from "@pnp/common";
 import { SPConfigurationPart } from "@pnp/sp";
 import { GraphConfigurationPart } from "@pnp/graph";
+import { MiddlewareConfigurationPart } from "@pnp/odata";
 
-export interface PnPConfiguration extends LibraryConfiguration, SPConfigurationPart, GraphConfigurationPart { }
+export interface PnPConfiguration extends LibraryConfiguration, SPConfigurationPart, GraphConfigurationPart, MiddlewareConfigurationPart { }
 
 export function setup(config: PnPConfiguration): void {
     RuntimeConfig.extend(config);
@@ -7,6 +7,8 @@ import { staticMethod } from "./opbuilders";
 import { ProcessQueryParser } from "./parsers";
 import { writeObjectPathBody } from "./utils";
 
+const logger = Logger.scope("sp-clientsvc.batch");
+
 export interface IObjectPathBatch extends ODataBatch {
 
 }
@@ -25,11 +27,12 @@ export class ObjectPathBatch extends ODataBatch implements IObjectPathBatch {
         // if we don't have any requests, don't bother sending anything
         // this could be due to caching further upstream, or just an empty batch
         if (this.requests.length < 1) {
-            Logger.write(`Resolving empty batch.`, LogLevel.Info);
+            logger.write(`Resolving empty batch.`, LogLevel.Info);
             return Promise.resolve();
         }
 
         const executor = new BatchExecutor(this.parentUrl, this.batchId);
+        executor.configure({ signal: this.signal });
         executor.appendRequests(this.requests);
         return executor.execute();
     }
@@ -141,23 +144,23 @@ class BatchExecutor extends ClientSvcQueryable {
 
     public execute(): Promise<void> {
 
-        Logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Executing batch with ${this._requests.length} requests.`, LogLevel.Info);
+        logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Executing batch with ${this._requests.length} requests.`, LogLevel.Info);
 
         // create our request body from all the merged object paths
         const options = {
             body: writeObjectPathBody(this._objectPaths.toArray()),
         };
 
-        Logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Sending batch request.`, LogLevel.Info);
+        logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Sending batch request.`, LogLevel.Info);
 
         // send the batch
         return super.postCore(options, new BatchParser()).then((rawResponse: any) => {
 
-            Logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Resolving batched requests.`, LogLevel.Info);
+            logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Resolving batched requests.`, LogLevel.Info);
 
             return this._requests.reduce((chain, request) => {
 
-                Logger.write(`[${request.id}] (${(new Date()).getTime()}) Resolving request in batch ${this.batchId}.`, LogLevel.Info);
+                logger.write(`[${request.id}] (${(new Date()).getTime()}) Resolving request in batch ${this.batchId}.`, LogLevel.Info);
 
                 return chain.then(_ => (<ProcessQueryParser>request.parser).findResult(rawResponse).then(request.resolve).catch(request.reject));
 
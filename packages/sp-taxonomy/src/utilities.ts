@@ -1,13 +1,18 @@
 import { sanitizeGuid, TypedHash, objectDefinedNotNull } from "@pnp/common";
 import { Item, ItemUpdateResult } from "@pnp/sp";
+import { Logger, LogLevel } from "@pnp/logging";
 import { ITermData } from "./terms";
 
+const logger = Logger.scope("sp-taxonomy");
+
 export function setItemMetaDataField(item: Item, fieldName: string, term: ITermData): Promise<ItemUpdateResult> {
 
     if (!objectDefinedNotNull(term)) {
         return Promise.resolve(null);
     }
 
+    logger.write(`Setting taxonomy field ${fieldName} to term ${term.Id}.`, LogLevel.Verbose);
+
     const postData: TypedHash<any> = {};
     postData[fieldName] = {
         "Label": term.Name,
@@ -25,6 +30,8 @@ export function setItemMetaDataMultiField(item: Item, fieldName: string, ...term
         return Promise.resolve(null);
     }
 
+    logger.write(`Setting taxonomy field ${fieldName} to ${terms.length} terms.`, LogLevel.Verbose);
+
     return item.list.fields.getByTitle(`${fieldName}_0`).select("InternalName").get<{ InternalName: string}>().then(i => {
 
         const postData: TypedHash<string> = {};
@@ -1,17 +1,40 @@
-import { ODataBatch } from "@pnp/odata";
-import { getGUID, isUrlAbsolute, combine, mergeHeaders, hOP } from "@pnp/common";
+import { ODataBatch, ODataBatchRequestInfo } from "@pnp/odata";
+import { getGUID, isUrlAbsolute, combine, mergeHeaders, hOP, extend } from "@pnp/common";
 import { Logger, LogLevel } from "@pnp/logging";
 import { SPHttpClient } from "./net/sphttpclient";
 import { SPRuntimeConfig } from "./config/splibconfig";
 import { toAbsoluteUrl } from "./utils/toabsoluteurl";
 
+const logger = Logger.scope("sp.batch");
+
+export interface SPBatchOptions {
+
+    /**
+     * The maximum number of requests sent in a single $batch request, default: 100
+     */
+    maxRequests?: number;
+
+    /**
+     * The maximum size in characters of the body of a single $batch request, default: 1048576
+     */
+    maxPayloadSize?: number;
+
+    /**
+     * The number of $batch requests sent at the same time when a batch is split, default: 1 (sent in order)
+     */
+    maxConcurrency?: number;
+}
+
 /**
  * Manages a batch of OData operations
  */
 export class SPBatch extends ODataBatch {
 
-    constructor(private baseUrl: string) {
+    private _options: SPBatchOptions;
+
+    constructor(private baseUrl: string, options: SPBatchOptions = {}) {
         super();
+        this._options = extend({ maxConcurrency: 1, maxPayloadSize: 1048576, maxRequests: 100 }, options);
     }
 
     /**
@@ -75,12 +98,12 @@ export class SPBatch extends ODataBatch {
 
     protected executeImpl(): Promise<void> {
 
-        Logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Executing batch with ${this.requests.length} requests.`, LogLevel.Info);
+        logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Executing batch with ${this.requests.length} requests.`, LogLevel.Info, { batchId: this.batchId });
 
         // if we don't have any requests, don't bother sending anything
         // this could be due to caching further upstream, or just an empty batch
         if (this.requests.length < 1) {
-            Logger.write(`Resolving empty batch.`, LogLevel.Info);
+            logger.write(`Resolving empty batch.`, LogLevel.Info);
             return Promise.resolve();
         }
 
@@ -93,138 +116,236 @@ export class SPBatch extends ODataBatch {
         // and for sending the entire batch
         return toAbsoluteUrl(this.baseUrl).then(absoluteRequestUrl => {
 
-            // build all the requests, send them, pipe results in order to parsers
-            const batchBody: string[] = [];
+            const chunks = this.split(absoluteRequestUrl);
 
-            let currentChangeSetId = "";
+            if (chunks.length > 1) {
+                logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Splitting batch into ${chunks.length} requests.`, LogLevel.Info, { batchId: this.batchId });
+            }
 
-            for (let i = 0; i < this.requests.length; i++) {
-                const reqInfo = this.requests[i];
+            const errors: any[] = [];
+            let next = 0;
 
-                if (reqInfo.method === "GET") {
+            // each worker sends the next unsent chunk until none remain, a failed chunk rejects only its own requests
+            const worker = (): Promise<void> => {
 
-                    if (currentChangeSetId.length > 0) {
-                        // end an existing change set
-                        batchBody.push(`--changeset_${currentChangeSetId}--\n\n`);
-                        currentChangeSetId = "";
-                    }
+                if (next >= chunks.length) {
+                    return Promise.resolve();
+                }
 
-                    batchBody.push(`--batch_${this.batchId}\n`);
+                const chunk = chunks[next++];
 
-                } else {
+                return this.sendChunk(client, absoluteRequestUrl, chunk).catch(e => {
+                    errors.push(e);
+                    chunk.requests.forEach(r => r.reject(e));
+                }).then(worker);
+            };
 
-                    if (currentChangeSetId.length < 1) {
-                        // start new change set
-                        currentChangeSetId = getGUID();
-                        batchBody.push(`--batch_${this.batchId}\n`);
-                        batchBody.push(`Content-Type: multipart/mixed; boundary="changeset_${currentChangeSetId}"\n\n`);
-                    }
+            const workers: Promise<void>[] = [];
+            for (let i = 0; i < Math.min(Math.max(this._options.maxConcurrency, 1), chunks.length); i++) {
+                workers.push(worker());
+            }
 
-                    batchBody.push(`--changeset_${currentChangeSetId}\n`);
+            return Promise.all(workers).then(() => {
+                if (errors.length > 0) {
+                    throw errors[0];
                 }
+            });
+        });
+    }
 
-                // common batch part prefix
-                batchBody.push(`Content-Type: application/http\n`);
-                batchBody.push(`Content-Transfer-Encoding: binary\n\n`);
+    /**
+     * Groups the requests into chunks which can each be sent as a single $batch request
+     *
+     * @param absoluteRequestUrl The absolute url used to resolve relative request urls
+     */
+    private split(absoluteRequestUrl: string): BatchChunk[] {
 
-                const headers = new Headers();
+        const chunks: BatchChunk[] = [];
+        let current: BatchChunk = { parts: [], requests: [], size: 0 };
 
-                // this is the url of the individual request within the batch
-                const url = isUrlAbsolute(reqInfo.url) ? reqInfo.url : combine(absoluteRequestUrl, reqInfo.url);
+        for (let i = 0; i < this.requests.length; i++) {
 
-                Logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Adding request ${reqInfo.method} ${url} to batch.`, LogLevel.Verbose);
+            const reqInfo = this.requests[i];
+            const part = this.formatRequest(reqInfo, absoluteRequestUrl);
 
-                if (reqInfo.method !== "GET") {
+            // start a new chunk when adding this request would exceed the limits, a single oversized request is still sent on its own
+            if (current.requests.length > 0 &&
+                (current.requests.length >= this._options.maxRequests || current.size + part.length > this._options.maxPayloadSize)) {
+                chunks.push(current);
+                current = { parts: [], requests: [], size: 0 };
+            }
 
-                    let method = reqInfo.method;
+            current.parts.push(part);
+            current.requests.push(reqInfo);
+            current.size += part.length;
+        }
 
-                    const castHeaders: any = reqInfo.options.headers;
-                    if (hOP(reqInfo, "options") && hOP(reqInfo.options, "headers") && castHeaders["X-HTTP-Method"] !== undefined) {
+        chunks.push(current);
 
-                        method = castHeaders["X-HTTP-Method"];
-                        delete castHeaders["X-HTTP-Method"];
-                    }
+        return chunks;
+    }
 
-                    batchBody.push(`${method} ${url} HTTP/1.1\n`);
+    /**
+     * Formats a single request as a part of the batch body
+     *
+     * @param reqInfo The request to format
+     * @param absoluteRequestUrl The absolute url used to resolve relative request urls
+     */
+    private formatRequest(reqInfo: ODataBatchRequestInfo, absoluteRequestUrl: string): string {
 
-                    headers.set("Content-Type", "application/json;odata=verbose;charset=utf-8");
+        const batchBody: string[] = [];
 
-                } else {
-                    batchBody.push(`${reqInfo.method} ${url} HTTP/1.1\n`);
-                }
+        // common batch part prefix
+        batchBody.push(`Content-Type: application/http\n`);
+        batchBody.push(`Content-Transfer-Encoding: binary\n\n`);
 
-                // merge global config headers
-                mergeHeaders(headers, SPRuntimeConfig.headers);
+        const headers = new Headers();
 
-                // merge per-request headers
-                if (reqInfo.options) {
-                    mergeHeaders(headers, reqInfo.options.headers);
-                }
+        // this is the url of the individual request within the batch
+        const url = isUrlAbsolute(reqInfo.url) ? reqInfo.url : combine(absoluteRequestUrl, reqInfo.url);
 
-                // lastly we apply any default headers we need that may not exist
-                if (!headers.has("Accept")) {
-                    headers.append("Accept", "application/json");
-                }
+        logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Adding request ${reqInfo.method} ${url} to batch.`, LogLevel.Verbose, { batchId: this.batchId });
 
-                if (!headers.has("Content-Type")) {
-                    headers.append("Content-Type", "application/json;odata=verbose;charset=utf-8");
-                }
+        if (reqInfo.method !== "GET") {
+
+            let method = reqInfo.method;
+
+            const castHeaders: any = reqInfo.options.headers;
+            if (hOP(reqInfo, "options") && hOP(reqInfo.options, "headers") && castHeaders["X-HTTP-Method"] !== undefined) {
+
+                method = castHeaders["X-HTTP-Method"];
+                delete castHeaders["X-HTTP-Method"];
+            }
+
+            batchBody.push(`${method} ${url} HTTP/1.1\n`);
 
-                if (!headers.has("X-ClientService-ClientTag")) {
-                    headers.append("X-ClientService-ClientTag", "PnPCoreJS:@pnp-$$Version$$");
+            headers.set("Content-Type", "application/json;odata=verbose;charset=utf-8");
+
+        } else {
+            batchBody.push(`${reqInfo.method} ${url} HTTP/1.1\n`);
+        }
+
+        // merge global config headers
+        mergeHeaders(headers, SPRuntimeConfig.headers);
+
+        // merge per-request headers
+        if (reqInfo.options) {
+            mergeHeaders(headers, reqInfo.options.headers);
+        }
+
+        // lastly we apply any default headers we need that may not exist
+        if (!headers.has("Accept")) {
+            headers.append("Accept", "application/json");
+        }
+
+        if (!headers.has("Content-Type")) {
+            headers.append("Content-Type", "application/json;odata=verbose;charset=utf-8");
+        }
+
+        if (!headers.has("X-ClientService-ClientTag")) {
+            headers.append("X-ClientService-ClientTag", "PnPCoreJS:@pnp-$$Version$$");
+        }
+
+        // write headers into batch body
+        headers.forEach((value: string, name: string) => {
+            batchBody.push(`${name}: ${value}\n`);
+        });
+
+        batchBody.push("\n");
+
+        if (reqInfo.options.body) {
+            batchBody.push(`${reqInfo.options.body}\n\n`);
+        }
+
+        return batchBody.join("");
+    }
+
+    /**
+     * Sends a chunk of requests as a single $batch request and pipes the results in order to their parsers
+     *
+     * @param client The client used to send the request
+     * @param absoluteRequestUrl The absolute url of the web
+     * @param chunk The chunk of requests to send
+     */
+    private sendChunk(client: SPHttpClient, absoluteRequestUrl: string, chunk: BatchChunk): Promise<void> {
+
+        const batchBody: string[] = [];
+
+        let currentChangeSetId = "";
+
+        for (let i = 0; i < chunk.requests.length; i++) {
+
+            if (chunk.requests[i].method === "GET") {
+
+                if (currentChangeSetId.length > 0) {
+                    // end an existing change set
+                    batchBody.push(`--changeset_${currentChangeSetId}--\n\n`);
+                    currentChangeSetId = "";
                 }
 
-                // write headers into batch body
-                headers.forEach((value: string, name: string) => {
-                    batchBody.push(`${name}: ${value}\n`);
-                });
+                batchBody.push(`--batch_${this.batchId}\n`);
 
-                batchBody.push("\n");
+            } else {
 
-                if (reqInfo.options.body) {
-                    batchBody.push(`${reqInfo.options.body}\n\n`);
+                if (currentChangeSetId.length < 1) {
+                    // start new change set
+                    currentChangeSetId = getGUID();
+                    batchBody.push(`--batch_${this.batchId}\n`);
+                    batchBody.push(`Content-Type: multipart/mixed; boundary="changeset_${currentChangeSetId}"\n\n`);
                 }
-            }
 
-            if (currentChangeSetId.length > 0) {
-                // Close the changeset
-                batchBody.push(`--changeset_${currentChangeSetId}--\n\n`);
-                currentChangeSetId = "";
+                batchBody.push(`--changeset_${currentChangeSetId}\n`);
             }
 
-            batchBody.push(`--batch_${this.batchId}--\n`);
+            batchBody.push(chunk.parts[i]);
+        }
 
-            const batchOptions = {
-                "body": batchBody.join(""),
-                "headers": {
-                    "Content-Type": `multipart/mixed; boundary=batch_${this.batchId}`,
-                },
-                "method": "POST",
-            };
+        if (currentChangeSetId.length > 0) {
+            // Close the changeset
+            batchBody.push(`--changeset_${currentChangeSetId}--\n\n`);
+            currentChangeSetId = "";
+        }
 
-            Logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Sending batch request.`, LogLevel.Info);
+        batchBody.push(`--batch_${this.batchId}--\n`);
 
-            return client.fetch(combine(absoluteRequestUrl, "/_api/$batch"), batchOptions)
-                .then(r => r.text())
-                .then(SPBatch.ParseResponse)
-                .then((responses: Response[]) => {
+        const batchOptions = {
+            "body": batchBody.join(""),
+            "headers": {
+                "Content-Type": `multipart/mixed; boundary=batch_${this.batchId}`,
+            },
+            "method": "POST",
+            "signal": this.signal,
+        };
 
-                    if (responses.length !== this.requests.length) {
-                        throw Error("Could not properly parse responses to match requests in batch.");
-                    }
+        logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Sending batch request.`, LogLevel.Info, { batchId: this.batchId });
 
-                    Logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Resolving batched requests.`, LogLevel.Info);
+        return client.fetch(combine(absoluteRequestUrl, "/_api/$batch"), batchOptions)
+            .then(r => r.text())
+            .then(SPBatch.ParseResponse)
+            .then((responses: Response[]) => {
 
-                    return responses.reduce((chain, response, index) => {
+                if (responses.length !== chunk.requests.length) {
+                    throw Error("Could not properly parse responses to match requests in batch.");
+                }
 
-                        const request = this.requests[index];
+                logger.write(`[${this.batchId}] (${(new Date()).getTime()}) Resolving batched requests.`, LogLevel.Info, { batchId: this.batchId });
 
-                        Logger.write(`[${request.id}] (${(new Date()).getTime()}) Resolving request in batch ${this.batchId}.`, LogLevel.Info);
+                return responses.reduce((chain, response, index) => {
 
-                        return chain.then(_ => request.parser.parse(response).then(request.resolve).catch(request.reject));
+                    const request = chunk.requests[index];
 
-                    }, Promise.resolve());
-                });
-        });
+                    logger.write(`[${request.id}] (${(new Date()).getTime()}) Resolving request in batch ${this.batchId}.`,
+                        LogLevel.Info, { batchId: this.batchId, requestId: request.id });
+
+                    return chain.then(_ => request.parser.parse(response).then(request.resolve).catch(request.reject));
+
+                }, Promise.resolve());
+            });
     }
 }
+
+interface BatchChunk {
+    parts: string[];
+    requests: ODataBatchRequestInfo[];
+    size: number;
+}
@@ -4,7 +4,10 @@ import {
     RuntimeConfig,
     HttpClientImpl,
     FetchClient,
+    RetryPolicy,
+    RequestLimiter,
 } from "@pnp/common";
+import { MiddlewareConfigurationPart } from "@pnp/odata";
 
 export interface SPConfigurationPart {
     sp?: {
@@ -22,10 +25,25 @@ export interface SPConfigurationPart {
          * Defines a factory method used to create fetch clients
          */
         fetchClientFactory?: () => HttpClientImpl;
+
+        /**
+         * If true successful write requests remove any cached values for the entity written and its parent, default: false
+         */
+        invalidateCacheOnWrite?: boolean;
+
+        /**
+         * Defines how throttled and failed requests are retried, overriding the global retryPolicy
+         */
+        retryPolicy?: RetryPolicy;
+
+        /**
+         * Limits the number of requests sent in parallel and per second, overriding the global requestLimiter
+         */
+        requestLimiter?: RequestLimiter | null;
     };
 }
 
-export interface SPConfiguration extends LibraryConfiguration, SPConfigurationPart { }
+export interface SPConfiguration extends LibraryConfiguration, SPConfigurationPart, MiddlewareConfigurationPart { }
 
 export function setup(config: SPConfiguration): void {
     RuntimeConfig.extend(config);
@@ -66,6 +84,36 @@ export class SPRuntimeConfigImpl {
             return () => new FetchClient();
         }
     }
+
+    public get invalidateCacheOnWrite(): boolean {
+
+        const spPart = RuntimeConfig.get("sp");
+        if (spPart !== undefined && spPart.invalidateCacheOnWrite !== undefined) {
+            return spPart.invalidateCacheOnWrite;
+        }
+
+        return false;
+    }
+
+    public get retryPolicy(): RetryPolicy {
+
+        const spPart = RuntimeConfig.get("sp");
+        if (spPart !== undefined && spPart.retryPolicy !== undefined) {
+            return spPart.retryPolicy;
+        }
+
+        return RuntimeConfig.retryPolicy;
+    }
+
+    public get requestLimiter(): RequestLimiter | null {
+
+        const spPart = RuntimeConfig.get("sp");
+        if (spPart !== undefined && spPart.requestLimiter !== undefined) {
+            return spPart.requestLimiter;
+        }
+
+        return RuntimeConfig.requestLimiter;
+    }
 }
 
 export let SPRuntimeConfig = new SPRuntimeConfigImpl();
@@ -1,10 +1,17 @@
 import { SharePointQueryableCollection, SharePointQueryableInstance, defaultPath } from "./sharepointqueryable";
-import { TextParser, BlobParser, JSONParser, BufferParser } from "@pnp/odata";
-import { extend, getGUID } from "@pnp/common";
+import { TextParser, BlobParser, JSONParser, BufferParser, StreamParser, StreamOptions, ResponseStream, getRangeHeader } from "@pnp/odata";
+import { extend, getGUID, isAborted, CancellationError, jsS, TypedHash } from "@pnp/common";
+import { Logger, LogLevel } from "@pnp/logging";
 import { LimitedWebPartManager } from "./webparts";
 import { Item } from "./items";
 import { SharePointQueryableShareableFile } from "./sharepointqueryableshareable";
 import { odataUrlFrom } from "./odata";
+import { Chunk, ChunkedUploadContent, createChunkReader, getContentSize } from "./utils/chunkreader";
+
+/**
+ * The default size in bytes of each chunk of a resumable upload
+ */
+const defaultChunkSize = 10485760;
 
 export interface ChunkedFileUploadProgressData {
     uploadId: string;
@@ -16,6 +23,65 @@ export interface ChunkedFileUploadProgressData {
     fileSize: number;
 }
 
+/**
+ * Stores the state of resumable uploads. localStorage and the FileStorage class from @pnp/nodejs can be used directly
+ */
+export interface ChunkedUploadStore {
+    getItem(key: string): string | null | Promise<string | null>;
+    setItem(key: string, value: string): void | Promise<void>;
+    removeItem(key: string): void | Promise<void>;
+}
+
+/**
+ * The state of a resumable upload, saved to the store after each chunk
+ */
+export interface ChunkedUploadState {
+    uploadId: string;
+    offset: number;
+    chunkSize: number;
+    fileSize: number | null;
+    contentId?: string;
+}
+
+export interface ResumableUploadOptions {
+
+    /**
+     * The size of each chunk in bytes, default: 10485760
+     */
+    chunkSize?: number;
+
+    /**
+     * Where the state of the upload is saved after each chunk, without a store an interrupted upload starts again
+     */
+    store?: ChunkedUploadStore;
+
+    /**
+     * The key under which the state is saved, default: the url of the file
+     */
+    key?: string;
+
+    /**
+     * Identifies the content, such as a hash or the path and modified time of the source file, so an upload is only resumed with the same content.
+     * The size of a stream is not known, so the state of a stream upload is only saved when this is supplied
+     */
+    contentId?: string;
+
+    /**
+     * The number of times each chunk is sent before the upload fails, default: 3
+     */
+    maxAttempts?: number;
+
+    /**
+     * The delay in milliseconds before a chunk is sent again, doubling with each attempt, default: 1000
+     */
+    retryDelay?: number;
+
+    /**
+     * Called before each chunk is sent
+     */
+    progress?: (data: ChunkedFileUploadProgressData) => void;
+}
+
 /**
  * Describes a collection of File objects
  *
@@ -77,6 +143,28 @@ export class Files extends SharePointQueryableCollection {
             .then(file => file.setContentChunked(content, progress, chunkSize));
     }
 
+    /**
+     * Uploads a file in chunks which can be resumed after a failure by calling this method again with the same content and store. Not supported for batching
+     *
+     * @param url The folder-relative url of the file.
+     * @param content The content to add, a Blob, ArrayBuffer, typed array such as a Node.js Buffer, or a readable stream
+     * @param options Sets the chunk size, the store used to resume the upload, retries and progress
+     * @param shouldOverWrite Should a file with the same name in the same location be overwritten? (default: true)
+     * @returns The new File and the raw response.
+     */
+    public addResumable(url: string, content: ChunkedUploadContent, options: ResumableUploadOptions = {}, shouldOverWrite = true): Promise<FileAddResult> {
+
+        const file = this.getByName(url);
+        const key = options.key || file.toUrl();
+        const chunkSize = options.chunkSize || defaultChunkSize;
+
+        // the file is only added when we will resume an upload to it, so shouldOverWrite is still applied to a new upload
+        return Promise.resolve(options.store ? options.store.getItem(key) : null)
+            .then(stored => getResumableState(stored, chunkSize, getContentSize(content), options.contentId) !== null ? null :
+                this.clone(Files, `add(overwrite=${shouldOverWrite},url='${url}')`, false).postCore())
+            .then(() => file.setContentResumable(content, extend(extend({}, options), { key })));
+    }
+
     /**
      * Adds a ghosted file to an existing list or document library. Not supported for batching.
      *
@@ -278,6 +366,24 @@ export class File extends SharePointQueryableShareableFile {
         return this.clone(File, "$value", false).get(new BlobParser(), { headers: { "binaryStringResponseBody": "true" } });
     }
 
+    /**
+     * Gets the contents of the file as a stream, a WHATWG ReadableStream in the browser or a Node.js readable stream in node. Not supported in batching.
+     * A range of the content can be requested, for example to resume a download
+     *
+     * @param options Sets the range of the content to read and a progress callback
+     */
+    public getStream(options: StreamOptions = {}): Promise<ResponseStream> {
+
+        const headers: TypedHash<string> = { "binaryStringResponseBody": "true" };
+        const range = getRangeHeader(options);
+
+        if (range !== null) {
+            headers.Range = range;
+        }
+
+        return this.clone(File, "$value", false).get(new StreamParser(options), { headers });
+    }
+
     /**
      * Gets the contents of a file as an ArrayBuffer, works in Node.js. Not supported in batching.
      */
@@ -324,6 +430,7 @@ export class File extends SharePointQueryableShareableFile {
 
     /**
      * Sets the contents of a file using a chunked upload approach. Not supported in batching.
+     * No further chunks are sent once a signal supplied using configure is aborted
      *
      * @param file The file to upload
      * @param progress A callback function which can be used to track the progress of the upload
@@ -336,20 +443,28 @@ export class File extends SharePointQueryableShareableFile {
         }
 
         const fileSize = file.size;
-        const blockCount = parseInt((file.size / chunkSize).toString(), 10) + ((file.size % chunkSize === 0) ? 1 : 0);
+        const blockCount = parseInt((file.size / chunkSize).toString(), 10) + ((file.size % chunkSize === 0) ? 0 : 1);
         const uploadId = getGUID();
 
         // start the chain with the first fragment
         progress({ uploadId, blockNumber: 1, chunkSize, currentPointer: 0, fileSize, stage: "starting", totalBlocks: blockCount });
 
-        let chain = this.startUpload(uploadId, file.slice(0, chunkSize));
+        // rejects the chain between chunks once cancelled
+        const checkAborted = (pointer: number) => {
+            if (isAborted(this._options.signal)) {
+                throw new CancellationError();
+            }
+            return pointer;
+        };
+
+        let chain = this.startUpload(uploadId, file.slice(0, chunkSize)).then(checkAborted);
 
         // skip the first and last blocks
         for (let i = 2; i < blockCount; i++) {
             chain = chain.then(pointer => {
                 progress({ uploadId, blockNumber: i, chunkSize, currentPointer: pointer, fileSize, stage: "continue", totalBlocks: blockCount });
                 return this.continueUpload(uploadId, pointer, file.slice(pointer, pointer + chunkSize));
-            });
+            }).then(checkAborted);
         }
 
         return chain.then(pointer => {
@@ -358,6 +473,125 @@ export class File extends SharePointQueryableShareableFile {
         });
     }
 
+    /**
+     * Sets the contents of a file in chunks, saving the state to the store after each chunk so an interrupted upload can be resumed
+     * by calling this method again with the same content and store. Each chunk is retried when it fails and the next chunk is read
+     * while the current one is sent. The chunks are not sent in parallel, as SharePoint only accepts a chunk whose offset is the number of
+     * bytes received so far. Not supported in batching. No further chunks are sent once a signal supplied using configure is aborted
+     *
+     * @param content The content to upload, a Blob, ArrayBuffer, typed array such as a Node.js Buffer, or a readable stream
+     * @param options Sets the chunk size, the store used to resume the upload, retries and progress
+     */
+    public setContentResumable(content: ChunkedUploadContent, options: ResumableUploadOptions = {}): Promise<FileAddResult> {
+
+        const o: ResumableUploadOptions = extend({
+            chunkSize: defaultChunkSize,
+            key: this.toUrl(),
+            maxAttempts: 3,
+            progress: () => null,
+            retryDelay: 1000,
+            store: null,
+        }, options);
+
+        const reader = createChunkReader(content);
+        const fileSize = reader.size;
+        const totalBlocks = fileSize === null ? null : Math.max(Math.ceil(fileSize / o.chunkSize), 1);
+
+        let saved = false;
+
+        // a stream without a content id could be different content the next time, so we never resume it
+        const canResume = o.store !== null && (fileSize !== null || !!o.contentId);
+
+        const saveState = (state: ChunkedUploadState): Promise<void> => {
+            saved = true;
+            return Promise.resolve(canResume ? o.store.setItem(o.key, jsS(extend(state, { contentId: o.contentId }))) : null);
+        };
+
+        const clearState = (): Promise<void> => Promise.resolve(o.store !== null ? o.store.removeItem(o.key) : null);
+
+        // sends a chunk again when it fails, unless the upload was cancelled or the request was rejected as invalid
+        const send = <T>(action: () => Promise<T>, attempt = 1): Promise<T> => action().catch(e => {
+
+            if (attempt >= o.maxAttempts || e.isCancellationError || (e.status >= 400 && e.status < 500)) {
+                throw e;
+            }
+
+            Logger.write(`Chunk upload attempt ${attempt} failed and will be retried: ${e.message}`, LogLevel.Warning);
+            return new Promise<void>(resolve => setTimeout(resolve, o.retryDelay * Math.pow(2, attempt - 1))).then(() => send<T>(action, attempt + 1));
+        });
+
+        const upload = (uploadId: string, offset: number, read: Promise<Chunk>): Promise<FileAddResult> => read.then(chunk => reader.hasMore().then(more => {
+
+            if (isAborted(this._options.signal)) {
+                throw new CancellationError();
+            }
+
+            // read the next chunk while this one is sent, we ignore a failure until it is used
+            const next = more ? reader.read(o.chunkSize) : null;
+            if (next !== null) {
+                next.catch(() => null);
+            }
+
+            o.progress({
+                blockNumber: Math.floor(offset / o.chunkSize) + 1,
+                chunkSize: o.chunkSize,
+                currentPointer: offset,
+                fileSize,
+                stage: offset === 0 ? "starting" : more ? "continue" : "finishing",
+                totalBlocks,
+                uploadId,
+            });
+
+            if (offset === 0) {
+
+                return send(() => this.startUpload(uploadId, chunk)).then(pointer => more ?
+                    saveState({ chunkSize: o.chunkSize, fileSize, offset: pointer, uploadId }).then(() => upload(uploadId, pointer, next)) :
+                    send(() => this.finishUpload(uploadId, pointer, new ArrayBuffer(0))));
+            }
+
+            if (more) {
+
+                return send(() => this.continueUpload(uploadId, offset, chunk)).then(pointer =>
+                    saveState({ chunkSize: o.chunkSize, fileSize, offset: pointer, uploadId }).then(() => upload(uploadId, pointer, next)));
+            }
+
+            return send(() => this.finishUpload(uploadId, offset, chunk));
+
+        }));
+
+        const start = (): Promise<FileAddResult> => upload(getGUID(), 0, reader.read(o.chunkSize));
+
+        return Promise.resolve(o.store !== null ? o.store.getItem(o.key) : null).then(stored => {
+
+            const state = canResume ? getResumableState(stored, o.chunkSize, fileSize, o.contentId) : null;
+
+            if (state === null) {
+                return start();
+            }
+
+            Logger.write(`Resuming upload ${state.uploadId} at offset ${state.offset}.`, LogLevel.Info);
+
+            return reader.seek(state.offset).then(() => upload(state.uploadId, state.offset, reader.read(o.chunkSize))).catch(e => {
+
+                if (e.isCancellationError || saved) {
+                    throw e;
+                }
+
+                // the session may have expired, so the stored state is removed and we start again if the content can be read again
+                if (!reader.canSeek) {
+                    return clearState().then(() => {
+                        throw e;
+                    });
+                }
+
+                Logger.write(`Upload ${state.uploadId} could not be resumed and will start again: ${e.message}`, LogLevel.Warning);
+
+                return this.cancelUpload(state.uploadId).catch(() => null).then(clearState).then(() => reader.seek(0)).then(start);
+            });
+
+        }).then(result => clearState().then(() => result));
+    }
+
     /**
      * Starts a new chunk upload session and uploads the first fragment.
      * The current file content is not changed when this method completes.
@@ -372,7 +606,7 @@ export class File extends SharePointQueryableShareableFile {
      * @param fragment The file contents.
      * @returns The size of the total uploaded data in bytes.
      */
-    protected startUpload(uploadId: string, fragment: ArrayBuffer | Blob): Promise<number> {
+    protected startUpload(uploadId: string, fragment: ArrayBuffer | ArrayBufferView | Blob): Promise<number> {
         return this.clone(File, `startUpload(uploadId=guid'${uploadId}')`, false)
             .postCore<string>({ body: fragment })
             .then(n => {
@@ -396,7 +630,7 @@ export class File extends SharePointQueryableShareableFile {
      * @param fragment The file contents.
      * @returns The size of the total uploaded data in bytes.
      */
-    protected continueUpload(uploadId: string, fileOffset: number, fragment: ArrayBuffer | Blob): Promise<number> {
+    protected continueUpload(uploadId: string, fileOffset: number, fragment: ArrayBuffer | ArrayBufferView | Blob): Promise<number> {
         return this.clone(File, `continueUpload(uploadId=guid'${uploadId}',fileOffset=${fileOffset})`, false)
             .postCore<string>({ body: fragment })
             .then(n => {
@@ -419,7 +653,7 @@ export class File extends SharePointQueryableShareableFile {
      * @param fragment The file contents.
      * @returns The newly uploaded file.
      */
-    protected finishUpload(uploadId: string, fileOffset: number, fragment: ArrayBuffer | Blob): Promise<FileAddResult> {
+    protected finishUpload(uploadId: string, fileOffset: number, fragment: ArrayBuffer | ArrayBufferView | Blob): Promise<FileAddResult> {
         return this.clone(File, `finishUpload(uploadId=guid'${uploadId}',fileOffset=${fileOffset})`, false)
             .postCore<{ ServerRelativeUrl: string }>({ body: fragment })
             .then(response => {
@@ -558,3 +792,23 @@ export enum TemplateFileType {
     FormPage = 2,
     ClientSidePage = 3,
 }
+
+/**
+ * Reads a stored upload state, returning null when there is none or it cannot be resumed. We can only resume an upload of the same content
+ * in the same size of chunks, a stream is only resumed when it has the content id of the stored upload
+ *
+ * @param stored The value read from the store
+ * @param chunkSize The chunk size of the new upload
+ * @param fileSize The size of the content, null for a stream
+ * @param contentId The id of the content supplied in the options
+ */
+function getResumableState(stored: string | null, chunkSize: number, fileSize: number | null, contentId?: string): ChunkedUploadState | null {
+
+    const state: ChunkedUploadState = stored ? JSON.parse(stored) : null;
+
+    if (state === null || state.chunkSize !== chunkSize || state.fileSize !== fileSize || (state.contentId || null) !== (contentId || null)) {
+        return null;
+    }
+
+    return fileSize !== null || !!contentId ? state : null;
+}
@@ -1,10 +1,12 @@
-import { extend, TypedHash, jsS } from "@pnp/common";
+import { extend, TypedHash, jsS, isUrlAbsolute, hOP } from "@pnp/common";
+import { Logger, LogLevel } from "@pnp/logging";
 import { SharePointQueryable, SharePointQueryableCollection, SharePointQueryableInstance, defaultPath } from "./sharepointqueryable";
 import { SharePointQueryableShareableFolder } from "./sharepointqueryableshareable";
 import { Files } from "./files";
 import { odataUrlFrom } from "./odata";
 import { Item } from "./items";
-import { SPHttpClient } from "./net/sphttpclient";
+import { toAbsoluteUrl } from "./utils/toabsoluteurl";
+import { extractWebUrl } from "./utils/extractweburl";
 
 /**
  * Describes a collection of Folder objects
@@ -146,25 +148,187 @@ export class Folder extends SharePointQueryableShareableFolder {
     }
 
     /**
-     * Moves a folder to destination path
+     * Moves this folder, along with all of its files and sub folders, to another location which may be in another site or site collection.
+     * SP.MoveCopyUtil is used to move the tree on the server, if it is not available or fails each file is copied and then deleted.
      *
-     * @param destUrl Absolute or relative URL of the destination path
-     */
-    public moveTo(destUrl: string): Promise<void> {
-        return this.select("ServerRelativeUrl").get().then(({ ServerRelativeUrl: srcUrl }) => {
-            const client = new SPHttpClient();
-            const webBaseUrl = this.toUrl().split("/_api")[0];
-            const hostUrl = webBaseUrl.replace("://", "___").split("/")[0].replace("___", "://");
-            const methodUrl = `${webBaseUrl}/_api/SP.MoveCopyUtil.MoveFolder()`;
-            return client.post(methodUrl, {
+     * @param destUrl Absolute or server relative url of the destination folder, which is created if it does not exist
+     * @param options Controls how existing files are treated and reports progress, files which are skipped stay in the source folder
+     */
+    public moveTo(destUrl: string, options: FolderCopyOptions = {}): Promise<void> {
+        return this.transfer(destUrl, options, true);
+    }
+
+    /**
+     * Copies this folder, along with all of its files and sub folders, to another location which may be in another site or site collection.
+     * SP.MoveCopyUtil is used to copy the tree on the server, if it is not available or fails each file is downloaded and uploaded again.
+     *
+     * @param destUrl Absolute or server relative url of the destination folder, which is created if it does not exist
+     * @param options Controls how existing files are treated and reports progress
+     */
+    public copyTo(destUrl: string, options: FolderCopyOptions = {}): Promise<void> {
+        return this.transfer(destUrl, options, false);
+    }
+
+    /**
+     * Copies or moves this folder tree, on the server when SP.MoveCopyUtil can honor the conflict behavior and file by file otherwise
+     *
+     * @param destUrl Absolute or server relative url of the destination folder
+     * @param options Controls how existing files are treated and reports progress
+     * @param move If true the source files and folders are deleted once they are copied
+     */
+    private transfer(destUrl: string, options: FolderCopyOptions, move: boolean): Promise<void> {
+
+        const opts = extend(<FolderCopyOptions>{ chunkSize: 10485760, conflict: "overwrite", useMoveCopyUtil: true }, options);
+
+        return Promise.all([toAbsoluteUrl(this.toUrl()), this.select("ServerRelativeUrl").get()]).then(([url, { ServerRelativeUrl: srcPath }]) => {
+
+            const webUrl = extractWebUrl(url);
+            const hostUrl = getHostUrl(webUrl);
+            const destAbsoluteUrl = isUrlAbsolute(destUrl) ? destUrl : `${hostUrl}${destUrl}`;
+            const context: FolderCopyContext = { move, options: opts, webPath: getServerRelativePath(webUrl), webUrl };
+            const copyTree = () => this.copyTree(context, srcPath, destAbsoluteUrl).then(() => void 0);
+
+            // SP.MoveCopyUtil has no way to keep or refuse existing files, so it is only used when they may be overwritten
+            if (!opts.useMoveCopyUtil || opts.conflict !== "overwrite") {
+                return copyTree();
+            }
+
+            return new Folder(webUrl, `_api/SP.MoveCopyUtil.${move ? "MoveFolder" : "CopyFolder"}()`).configureFrom(this).postCore({
                 body: jsS({
-                    destUrl: destUrl.indexOf("http") === 0 ? destUrl : `${hostUrl}${destUrl}`,
-                    srcUrl: `${hostUrl}${srcUrl}`,
+                    destUrl: destAbsoluteUrl,
+                    srcUrl: `${hostUrl}${srcPath}`,
                 }),
-            }).then(r => r.json());
+            }).then(() => {
+
+                report(opts, { action: move ? "moved" : "copied", destUrl: destAbsoluteUrl, sourceUrl: srcPath, type: "folder" });
+
+            }, e => {
+
+                // only failures reported by the server are worth trying again the slow way
+                if (!e.isHttpRequestError) {
+                    throw e;
+                }
+
+                Logger.write(`SP.MoveCopyUtil could not ${move ? "move" : "copy"} ${srcPath}, each file will be copied instead: ${e.message}`, LogLevel.Warning);
+                return copyTree();
+            });
+        });
+    }
+
+    /**
+     * Copies a folder by creating the destination folder, copying each file and then each sub folder in turn.
+     * When moving, each file is deleted once copied and each folder once everything in it has been moved.
+     *
+     * @param context The state shared by the whole copy
+     * @param srcPath The server relative url of the source folder
+     * @param destUrl The absolute url of the destination folder
+     * @param source The source folder, this folder when not supplied
+     * @param destWebUrl The url of the web containing the destination folder, looked up when not supplied
+     * @returns true if every file in the tree was copied, false if any were skipped
+     */
+    private copyTree(context: FolderCopyContext, srcPath: string, destUrl: string, source: Folder = this, destWebUrl?: string): Promise<boolean> {
+
+        const opts = context.options;
+        const destPath = getServerRelativePath(destUrl);
+        const fileAction = context.move ? "moved" : "copied";
+
+        const webLookup = destWebUrl !== undefined ? Promise.resolve(destWebUrl) : this.getDestWebUrl(context.webUrl, destUrl);
+
+        return webLookup.then(webUrl => {
+
+            destWebUrl = webUrl;
+            return new Folders(webUrl, "_api/web/folders").configureFrom(this).add(escapePath(destPath));
+
+        }).then(() => {
+
+            report(opts, { action: "created", destUrl, sourceUrl: srcPath, type: "folder" });
+
+            const dest = new Folder(destWebUrl, `_api/web/getFolderByServerRelativeUrl('${escapePath(destPath)}')`).configureFrom(this);
+
+            // when overwriting we don't need to know which files are already there
+            const existing = opts.conflict === "overwrite" ? Promise.resolve([]) : dest.files.select("Name").get<{ Name: string }[]>();
+
+            return Promise.all([
+                source.files.select("Name", "Length").get<{ Name: string, Length: string }[]>(),
+                source.folders.select("Name").get<{ Name: string }[]>(),
+                existing,
+            ]).then(([files, folders, destFiles]) => {
+
+                const names = destFiles.map(f => f.Name.toLowerCase());
+                let complete = true;
+
+                const copyFiles = files.reduce((chain, f) => chain.then(() => {
+
+                    const sourceUrl = `${srcPath}/${f.Name}`;
+                    const fileDestUrl = `${destUrl}/${f.Name}`;
+
+                    if (names.indexOf(f.Name.toLowerCase()) > -1) {
+
+                        if (opts.conflict === "fail") {
+                            throw Error(`The file ${fileDestUrl} already exists.`);
+                        }
+
+                        complete = false;
+                        report(opts, { action: "skipped", destUrl: fileDestUrl, sourceUrl, type: "file" });
+                        return;
+                    }
+
+                    const file = source.files.getByName(f.Name);
+                    const overwrite = opts.conflict === "overwrite";
+
+                    // large files are streamed in chunks so they are never held in memory
+                    const upload = parseInt(f.Length, 10) > opts.chunkSize ?
+                        file.getStream().then(stream => dest.files.addResumable(f.Name, stream, { chunkSize: opts.chunkSize }, overwrite)) :
+                        file.getBuffer().then(buffer => dest.files.add(f.Name, buffer, overwrite));
+
+                    return upload
+                        .then(() => context.move ? file.delete() : null)
+                        .then(() => report(opts, { action: fileAction, destUrl: fileDestUrl, sourceUrl, type: "file" }));
+
+                }), Promise.resolve());
+
+                const copyFolders = () => folders.reduce((chain, f) => chain.then(() => {
+
+                    // the forms of a library are part of the library, not content we should copy
+                    if (isLibraryRoot(context.webPath, srcPath) && f.Name.toLowerCase() === "forms") {
+                        return;
+                    }
+
+                    return this.copyTree(context, `${srcPath}/${f.Name}`, `${destUrl}/${f.Name}`, source.folders.getByName(f.Name), destWebUrl).then(copied => {
+                        complete = complete && copied;
+                    });
+
+                }), Promise.resolve());
+
+                return copyFiles.then(copyFolders).then(() => {
+
+                    // a folder still holding skipped files stays, as does the root folder of a library which can't be deleted
+                    if (!context.move || !complete || isLibraryRoot(context.webPath, srcPath)) {
+                        return complete;
+                    }
+
+                    return source.delete().then(() => {
+                        report(opts, { action: "moved", destUrl, sourceUrl: srcPath, type: "folder" });
+                        return complete;
+                    });
+                });
+            });
         });
     }
 
+    /**
+     * Gets the url of the web containing the supplied url, which may be in another site collection
+     *
+     * @param webUrl The url of the web used to make the request
+     * @param url The absolute url of a folder
+     */
+    private getDestWebUrl(webUrl: string, url: string): Promise<string> {
+
+        const q = new SharePointQueryable(webUrl, "_api/sp.web.getweburlfrompageurl(@v)").configureFrom(this);
+        q.query.set("@v", `'${encodeURIComponent(escapePath(url))}'`);
+
+        return q.get().then(data => hOP(data, "GetWebUrlFromPageUrl") ? data.GetWebUrlFromPageUrl : data);
+    }
 }
 
 export interface FolderAddResult {
@@ -176,3 +340,88 @@ export interface FolderUpdateResult {
     folder: Folder;
     data: any;
 }
+
+/**
+ * What happens when a file being copied already exists at the destination
+ */
+export type CopyConflictBehavior = "overwrite" | "skip" | "fail";
+
+export interface FolderCopyProgressData {
+
+    /**
+     * What was done with the file or folder
+     */
+    action: "created" | "copied" | "moved" | "skipped";
+
+    /**
+     * The kind of object processed
+     */
+    type: "file" | "folder";
+
+    /**
+     * The server relative url of the source file or folder
+     */
+    sourceUrl: string;
+
+    /**
+     * The absolute url of the destination file or folder
+     */
+    destUrl: string;
+}
+
+export interface FolderCopyOptions {
+
+    /**
+     * What happens when a file already exists at the destination, default: "overwrite"
+     */
+    conflict?: CopyConflictBehavior;
+
+    /**
+     * If false each file is always downloaded and uploaded instead of being copied on the server, default: true.
+     * SP.MoveCopyUtil is only used when conflict is "overwrite"
+     */
+    useMoveCopyUtil?: boolean;
+
+    /**
+     * Files larger than this size in bytes are streamed and uploaded in chunks of this size, default: 10485760
+     */
+    chunkSize?: number;
+
+    /**
+     * Called as each file and folder is processed
+     */
+    progress?: (data: FolderCopyProgressData) => void;
+}
+
+interface FolderCopyContext {
+    move: boolean;
+    options: FolderCopyOptions;
+    webUrl: string;
+    webPath: string;
+}
+
+function report(options: FolderCopyOptions, data: FolderCopyProgressData): void {
+    if (typeof options.progress === "function") {
+        options.progress(data);
+    }
+}
+
+function getHostUrl(url: string): string {
+    const match = /^[a-z]+:\/\/[^\/]+/i.exec(url);
+    return match === null ? "" : match[0];
+}
+
+function getServerRelativePath(url: string): string {
+    return url.substr(getHostUrl(url).length).replace(/\/$/, "");
+}
+
+function escapePath(path: string): string {
+    return path.replace(/'/g, "''");
+}
+
+/**
+ * Determines if the supplied folder is the root folder of a list or library, whose parent is the web itself
+ */
+function isLibraryRoot(webPath: string, folderPath: string): boolean {
+    return folderPath.substr(0, folderPath.lastIndexOf("/")).toLowerCase() === webPath.toLowerCase();
+}
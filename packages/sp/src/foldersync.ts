@@ -0,0 +1,339 @@
+import { extend } from "@pnp/common";
+import { NodeReadableStream, ResponseStream } from "@pnp/odata";
+import { Folder, CopyConflictBehavior } from "./folders";
+import { toAbsoluteUrl } from "./utils/toabsoluteurl";
+import { extractWebUrl } from "./utils/extractweburl";
+
+/**
+ * What happens when a file already exists at the destination. "newer" replaces it only when the source was modified more recently
+ */
+export type SyncConflictBehavior = CopyConflictBehavior | "newer";
+
+/**
+ * Describes a file or directory on the local disk
+ */
+export interface LocalFileInfo {
+    name: string;
+    isDirectory: boolean;
+    size: number;
+    modified: Date;
+}
+
+/**
+ * The operations on the local disk used to mirror and export folders, NodeFileSystem in @pnp/nodejs implements them for nodejs
+ */
+export interface LocalFileSystem {
+
+    /**
+     * Gets the path of an entry within a directory
+     *
+     * @param directory The path of the directory
+     * @param name The name of the entry
+     */
+    join(directory: string, name: string): string;
+
+    /**
+     * Lists the files and sub directories of a directory
+     *
+     * @param path The path of the directory
+     */
+    readDirectory(path: string): Promise<LocalFileInfo[]>;
+
+    /**
+     * Describes a file or directory, resolving null if it does not exist
+     *
+     * @param path The path of the file or directory
+     */
+    stat(path: string): Promise<LocalFileInfo | null>;
+
+    /**
+     * Creates a directory along with any missing parents, resolving true if it was created
+     *
+     * @param path The path of the directory
+     */
+    ensureDirectory(path: string): Promise<boolean>;
+
+    /**
+     * Reads the whole content of a file
+     *
+     * @param path The path of the file
+     */
+    readFile(path: string): Promise<ArrayBuffer>;
+
+    /**
+     * Opens a stream reading the content of a file, used for files which are uploaded in chunks
+     *
+     * @param path The path of the file
+     */
+    createReadStream(path: string): NodeReadableStream;
+
+    /**
+     * Writes a stream to a file, replacing any existing content, and sets the time the file was modified
+     *
+     * @param path The path of the file
+     * @param content The stream of the file's content
+     * @param modified The time the file was last modified
+     */
+    writeFile(path: string, content: ResponseStream, modified: Date): Promise<void>;
+}
+
+export interface FolderSyncProgressData {
+
+    /**
+     * What was done with the file or folder
+     */
+    action: "created" | "uploaded" | "downloaded" | "skipped" | "recycled";
+
+    /**
+     * The kind of object processed
+     */
+    type: "file" | "folder";
+
+    /**
+     * The path of the file or folder on the local disk
+     */
+    localPath: string;
+
+    /**
+     * The server relative url of the file or folder in the library
+     */
+    serverRelativeUrl: string;
+}
+
+export interface FolderSyncOptions {
+
+    /**
+     * What happens when a file already exists at the destination, default: "newer"
+     */
+    conflict?: SyncConflictBehavior;
+
+    /**
+     * Files larger than this size in bytes are uploaded in chunks of this size, default: 10485760
+     */
+    chunkSize?: number;
+
+    /**
+     * Called as each file and folder is processed
+     */
+    progress?: (data: FolderSyncProgressData) => void;
+}
+
+export interface MirrorDirectoryOptions extends FolderSyncOptions {
+
+    /**
+     * If true files and folders in the library which do not exist in the local directory are sent to the recycle bin, default: false
+     */
+    recycleMissing?: boolean;
+}
+
+interface RemoteFile {
+    Name: string;
+    TimeLastModified: string;
+}
+
+interface SyncContext {
+    fileSystem: LocalFileSystem;
+    options: MirrorDirectoryOptions;
+    webPath: string;
+}
+
+/**
+ * Uploads the files and sub directories of a local directory into a library folder, creating any folders which do not exist
+ *
+ * @param localPath The path of the local directory
+ * @param folder The library folder into which the directory is uploaded
+ * @param fileSystem Reads the local directory
+ * @param options Controls how existing files are treated and reports progress
+ */
+export function mirrorDirectory(localPath: string, folder: Folder, fileSystem: LocalFileSystem, options: MirrorDirectoryOptions = {}): Promise<void> {
+
+    return createContext(folder, fileSystem, options).then(([context, serverPath]) => mirror(context, localPath, folder, serverPath));
+}
+
+/**
+ * Downloads the files and sub folders of a library folder into a local directory, creating any directories which do not exist
+ *
+ * @param folder The library folder to download
+ * @param localPath The path of the local directory
+ * @param fileSystem Writes the local directory
+ * @param options Controls how existing files are treated and reports progress
+ */
+export function exportFolder(folder: Folder, localPath: string, fileSystem: LocalFileSystem, options: FolderSyncOptions = {}): Promise<void> {
+
+    return createContext(folder, fileSystem, options).then(([context, serverPath]) => download(context, folder, serverPath, localPath));
+}
+
+function createContext(folder: Folder, fileSystem: LocalFileSystem, options: MirrorDirectoryOptions): Promise<[SyncContext, string]> {
+
+    const opts = extend(<MirrorDirectoryOptions>{ chunkSize: 10485760, conflict: "newer", recycleMissing: false }, options);
+
+    return Promise.all([toAbsoluteUrl(folder.toUrl()), folder.select("ServerRelativeUrl").get()]).then(([url, { ServerRelativeUrl }]) => {
+
+        const webPath = extractWebUrl(url).replace(/^[a-z]+:\/\/[^\/]+/i, "").replace(/\/$/, "");
+        return <[SyncContext, string]>[{ fileSystem, options: opts, webPath }, ServerRelativeUrl];
+    });
+}
+
+function mirror(context: SyncContext, localPath: string, folder: Folder, serverPath: string): Promise<void> {
+
+    const opts = context.options;
+    const fileSystem = context.fileSystem;
+
+    return Promise.all([
+        fileSystem.readDirectory(localPath),
+        folder.files.select("Name", "TimeLastModified").get<RemoteFile[]>(),
+        folder.folders.select("Name").get<{ Name: string }[]>(),
+    ]).then(([entries, remoteFiles, remoteFolders]) => {
+
+        const folders = remoteFolders.filter(f => !isFormsFolder(context, serverPath, f.Name));
+        const localNames = entries.map(e => e.name.toLowerCase());
+
+        const files = entries.filter(e => !e.isDirectory).reduce((chain, entry) => chain.then(() => {
+
+            const filePath = fileSystem.join(localPath, entry.name);
+            const fileUrl = `${serverPath}/${entry.name}`;
+            const existing = find(remoteFiles, entry.name);
+
+            if (existing !== null && !shouldReplace(opts, fileUrl, entry.modified.getTime(), Date.parse(existing.TimeLastModified))) {
+                report(opts, { action: "skipped", localPath: filePath, serverRelativeUrl: fileUrl, type: "file" });
+                return;
+            }
+
+            // large files are streamed in chunks so they are never held in memory
+            const upload = entry.size > opts.chunkSize ?
+                folder.files.addResumable(entry.name, fileSystem.createReadStream(filePath), { chunkSize: opts.chunkSize }, true) :
+                fileSystem.readFile(filePath).then(buffer => folder.files.add(entry.name, buffer, true));
+
+            return upload.then(() => report(opts, { action: "uploaded", localPath: filePath, serverRelativeUrl: fileUrl, type: "file" }));
+
+        }), Promise.resolve());
+
+        const directories = () => entries.filter(e => e.isDirectory).reduce((chain, entry) => chain.then(() => {
+
+            const directoryPath = fileSystem.join(localPath, entry.name);
+            const folderUrl = `${serverPath}/${entry.name}`;
+
+            if (find(folders, entry.name) !== null) {
+                return mirror(context, directoryPath, folder.folders.getByName(entry.name), folderUrl);
+            }
+
+            return folder.folders.add(entry.name).then(() => {
+                report(opts, { action: "created", localPath: directoryPath, serverRelativeUrl: folderUrl, type: "folder" });
+                return mirror(context, directoryPath, folder.folders.getByName(entry.name), folderUrl);
+            });
+
+        }), Promise.resolve());
+
+        const recycle = () => {
+
+            if (!opts.recycleMissing) {
+                return Promise.resolve();
+            }
+
+            const missing: { name: string, type: "file" | "folder" }[] = [];
+            remoteFiles.filter(f => localNames.indexOf(f.Name.toLowerCase()) < 0).forEach(f => missing.push({ name: f.Name, type: "file" }));
+            folders.filter(f => localNames.indexOf(f.Name.toLowerCase()) < 0).forEach(f => missing.push({ name: f.Name, type: "folder" }));
+
+            return missing.reduce((chain, m) => chain.then(() => {
+
+                const target = m.type === "file" ? folder.files.getByName(m.name) : folder.folders.getByName(m.name);
+
+                return target.recycle().then(() => report(opts, {
+                    action: "recycled",
+                    localPath: fileSystem.join(localPath, m.name),
+                    serverRelativeUrl: `${serverPath}/${m.name}`,
+                    type: m.type,
+                }));
+
+            }), Promise.resolve());
+        };
+
+        return files.then(directories).then(recycle);
+    });
+}
+
+function download(context: SyncContext, folder: Folder, serverPath: string, localPath: string): Promise<void> {
+
+    const opts = context.options;
+    const fileSystem = context.fileSystem;
+
+    return fileSystem.ensureDirectory(localPath).then(created => {
+
+        if (created) {
+            report(opts, { action: "created", localPath, serverRelativeUrl: serverPath, type: "folder" });
+        }
+
+        return Promise.all([
+            folder.files.select("Name", "TimeLastModified").get<RemoteFile[]>(),
+            folder.folders.select("Name").get<{ Name: string }[]>(),
+        ]);
+
+    }).then(([files, folders]) => {
+
+        const downloads = files.reduce((chain, file) => chain.then(() => {
+
+            const filePath = fileSystem.join(localPath, file.Name);
+            const fileUrl = `${serverPath}/${file.Name}`;
+            const modified = new Date(file.TimeLastModified);
+
+            return fileSystem.stat(filePath).then(info => {
+
+                if (info !== null && !shouldReplace(opts, filePath, modified.getTime(), info.modified.getTime())) {
+                    report(opts, { action: "skipped", localPath: filePath, serverRelativeUrl: fileUrl, type: "file" });
+                    return;
+                }
+
+                // we keep the time the file was modified in the library so "newer" can compare the two later
+                return folder.files.getByName(file.Name).getStream().then(stream => fileSystem.writeFile(filePath, stream, modified))
+                    .then(() => report(opts, { action: "downloaded", localPath: filePath, serverRelativeUrl: fileUrl, type: "file" }));
+            });
+
+        }), Promise.resolve());
+
+        return downloads.then(() => folders.filter(f => !isFormsFolder(context, serverPath, f.Name)).reduce((chain, f) => chain.then(() => {
+
+            return download(context, folder.folders.getByName(f.Name), `${serverPath}/${f.Name}`, fileSystem.join(localPath, f.Name));
+
+        }), Promise.resolve()));
+    });
+}
+
+/**
+ * Determines if an existing file is replaced, rejecting if the conflict behavior is "fail"
+ *
+ * @param options The options of the operation
+ * @param destination The path or url of the existing file, used in the error
+ * @param sourceModified The time the source file was last modified
+ * @param destModified The time the existing file was last modified
+ */
+function shouldReplace(options: FolderSyncOptions, destination: string, sourceModified: number, destModified: number): boolean {
+
+    switch (options.conflict) {
+        case "fail":
+            throw Error(`The file ${destination} already exists.`);
+        case "skip":
+            return false;
+        case "newer":
+            return sourceModified > destModified;
+        default:
+            return true;
+    }
+}
+
+/**
+ * Determines if the supplied sub folder holds the forms of a library, which are part of the library rather than its content
+ */
+function isFormsFolder(context: SyncContext, parentPath: string, name: string): boolean {
+    return name.toLowerCase() === "forms" && parentPath.substr(0, parentPath.lastIndexOf("/")).toLowerCase() === context.webPath.toLowerCase();
+}
+
+function find<T extends { Name: string }>(items: T[], name: string): T | null {
+    const matches = items.filter(i => i.Name.toLowerCase() === name.toLowerCase());
+    return matches.length > 0 ? matches[0] : null;
+}
+
+function report(options: FolderSyncOptions, data: FolderSyncProgressData): void {
+    if (typeof options.progress === "function") {
+        options.progress(data);
+    }
+}
@@ -3,9 +3,9 @@ import { SharePointQueryableShareableItem } from "./sharepointqueryableshareable
 import { Folder } from "./folders";
 import { File } from "./files";
 import { ContentType } from "./contenttypes";
-import { extend, TypedHash, jsS, hOP } from "@pnp/common";
+import { extend, TypedHash, jsS, hOP, isAborted, CancellationError } from "@pnp/common";
 import { ListItemFormUpdateValue, LikeData } from "./types";
-import { ODataParserBase } from "@pnp/odata";
+import { ODataParserBase, ODataPage, ODataPageParser, asAsyncIterable, iteratePages } from "@pnp/odata";
 import { AttachmentFiles } from "./attachmentfiles";
 import { List } from "./lists";
 import { Logger, LogLevel } from "@pnp/logging";
@@ -64,7 +64,8 @@ export class Items extends SharePointQueryableCollection {
     }
 
     /**
-     * Gets all the items in a list, regardless of count. Does not support batching or caching
+     * Gets all the items in a list, regardless of count. Does not support batching or caching. Paging stops if a signal supplied using configure is aborted
+     * Filters on columns which are not indexed fail on lists above the list view threshold, use getAllByIdRange to read those lists
      *
      *  @param requestSize Number of items to return in each request (Default: 2000)
      *  @param acceptHeader Allows for setting the value of the Accept header for SP 2013 support
@@ -104,7 +105,9 @@ export class Items extends SharePointQueryableCollection {
                 [].push.apply(itemsCollector, last.results);
 
                 // if we have more, repeat - otherwise resolve with the collected items
-                if (last.hasNext) {
+                if (last.hasNext && isAborted(this._options.signal)) {
+                    reject(new CancellationError());
+                } else if (last.hasNext) {
                     last.getNext().then(gatherer).catch(reject);
                 } else {
                     resolve(itemsCollector);
@@ -116,6 +119,130 @@ export class Items extends SharePointQueryableCollection {
         });
     }
 
+    /**
+     * Reads the items one window of ids at a time so each request stays within the list view threshold, regardless of the size of the list.
+     * A filter set on this collection is applied within each window, select and expand are kept and the items are returned in id order
+     *
+     * @param options Sets the size of the windows and pages, where to start and an optional filter applied to each item on the client
+     */
+    public pagedByIdRange<T = any>(options: ItemsByIdRangeOptions<T> = {}): AsyncIterableIterator<T[]> {
+
+        const o: ItemsByIdRangeOptions<T> = extend({
+            filter: null,
+            pageSize: 2000,
+            signal: this._options.signal,
+            startAfterId: 0,
+            windowSize: 5000,
+        }, options);
+
+        const userFilter = this.query.get("$filter");
+
+        if (this.query.has("$orderby")) {
+            Logger.write("Items read by id range are returned in id order, the orderBy of the query is ignored.", LogLevel.Warning);
+        }
+
+        let maxId: number = null;
+        let start = o.startAfterId;
+        let pages: AsyncIterableIterator<ODataPage<T>> = null;
+        let finished = false;
+
+        // creates the pages of the next window of ids, combining any filter from the query with the id range
+        const openWindow = (): AsyncIterableIterator<ODataPage<T>> => {
+
+            const end = start + o.windowSize;
+            const query = new Items(this, "").top(o.pageSize).orderBy("Id");
+
+            query.query.set("$filter", `Id gt ${start} and Id le ${end}${userFilter !== undefined ? ` and (${userFilter})` : ""}`);
+
+            this.query.forEach((v: string, k: string) => {
+                if (/^\$select|\$expand$/i.test(k)) {
+                    query.query.set(k, v);
+                }
+            });
+
+            start = end;
+            return iteratePages(nextUrl => query.getPage<T>(nextUrl), { signal: o.signal });
+        };
+
+        const next = (): Promise<IteratorResult<T[]>> => {
+
+            if (finished) {
+                return Promise.resolve({ done: true, value: <T[]>undefined });
+            }
+
+            if (isAborted(o.signal)) {
+                finished = true;
+                return Promise.reject(new CancellationError());
+            }
+
+            // we read the highest id once, items added after that are not returned
+            if (maxId === null) {
+                return this.getMaxId().then(id => {
+                    maxId = id;
+                    return next();
+                });
+            }
+
+            if (pages === null) {
+
+                if (start >= maxId) {
+                    finished = true;
+                    return next();
+                }
+
+                pages = openWindow();
+            }
+
+            return pages.next().then(r => {
+
+                if (r.done) {
+                    pages = null;
+                    return next();
+                }
+
+                const results = typeof o.filter === "function" ? r.value.results.filter(o.filter) : r.value.results;
+
+                // a window may have no matching items, we only return pages with results
+                return results.length > 0 ? { done: false, value: results } : next();
+            });
+        };
+
+        return asAsyncIterable({
+            next: () => next().catch(e => {
+                finished = true;
+                throw e;
+            }),
+            return: (): Promise<IteratorResult<T[]>> => {
+                finished = true;
+                return Promise.resolve(pages !== null ? pages.return() : null).then(() => ({ done: true, value: <T[]>undefined }));
+            },
+        });
+    }
+
+    /**
+     * Gets all the items in a list one window of ids at a time, so lists above the list view threshold can be read.
+     * A filter set on this collection is applied within each window, select and expand are kept and the items are returned in id order
+     *
+     * @param options Sets the size of the windows and pages, where to start and an optional filter applied to each item on the client
+     */
+    public getAllByIdRange<T = any>(options?: ItemsByIdRangeOptions<T>): Promise<T[]> {
+
+        const pages = this.pagedByIdRange<T>(options);
+        const itemsCollector: T[] = [];
+
+        const gatherer = (): Promise<T[]> => pages.next().then(r => {
+
+            if (r.done) {
+                return itemsCollector;
+            }
+
+            [].push.apply(itemsCollector, r.value);
+            return gatherer();
+        });
+
+        return gatherer();
+    }
+
     /**
      * Adds a new item to the collection
      *
@@ -143,6 +270,24 @@ export class Items extends SharePointQueryableCollection {
         });
     }
 
+    /**
+     * Loads the page found at the supplied url, or the first page when the url is null
+     *
+     * @param nextUrl The url of the page to load
+     */
+    protected getPage<T>(nextUrl: string | null): Promise<ODataPage<T>> {
+
+        // list items return a next link while more are available and don't support $skip
+        return new Items(nextUrl || this.toUrlAndQuery(), null).configureFrom(this).get(new ODataPageParser<T>());
+    }
+
+    /**
+     * Gets the highest id in the list, 0 if it has no items
+     */
+    private getMaxId(): Promise<number> {
+        return new Items(this, "").select("Id").orderBy("Id", false).top(1).get().then((items: { Id: number }[]) => items.length > 0 ? items[0].Id : 0);
+    }
+
     /**
      * Ensures we have the proper list item entity type name, either from the value provided or from the list
      *
@@ -374,6 +519,34 @@ export class Item extends SharePointQueryableShareableItem {
     }
 }
 
+export interface ItemsByIdRangeOptions<T = any> {
+
+    /**
+     * The number of ids covered by each window, keep this at or below the list view threshold, default: 5000
+     */
+    windowSize?: number;
+
+    /**
+     * The number of items requested in each page within a window, default: 2000
+     */
+    pageSize?: number;
+
+    /**
+     * Only items with a greater id are returned, pass the id of the last item processed to resume, default: 0
+     */
+    startAfterId?: number;
+
+    /**
+     * Applied to each item on the client, for conditions on columns which are not indexed
+     */
+    filter?: (item: T) => boolean;
+
+    /**
+     * Stops reading when aborted, rejecting with a CancellationError, default: any signal supplied using configure
+     */
+    signal?: AbortSignal;
+}
+
 export interface ItemAddResult {
     item: Item;
     data: any;
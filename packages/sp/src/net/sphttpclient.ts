@@ -4,8 +4,8 @@ import {
     mergeHeaders,
     FetchOptions,
     RequestClient,
-    getCtxCallback,
     HttpClientImpl,
+    fetchWithRetry,
 } from "@pnp/common";
 import { SPRuntimeConfig } from "../config/splibconfig";
 import { extractWebUrl } from "../utils/extractweburl";
@@ -72,67 +72,12 @@ export class SPHttpClient implements RequestClient {
         mergeHeaders(rawHeaders, options.headers);
         options = extend(options, { headers: rawHeaders });
 
-        const retry = (ctx: RetryContext): void => {
-
-            // handles setting the proper timeout for a retry
-            const setRetry = (response: Response) => {
-                let delay;
-
-                if (response.headers.has("Retry-After")) {
-                    // if we have gotten a header, use that value as the delay value
-                    delay = parseInt(response.headers.get("Retry-After"), 10);
-                } else {
-                    // grab our current delay
-                    delay = ctx.delay;
-
-                    // Increment our counters.
-                    ctx.delay *= 2;
-                }
-
-                ctx.attempts++;
-
-                // If we have exceeded the retry count, reject.
-                if (ctx.retryCount <= ctx.attempts) {
-                    ctx.reject(Error(`Retry count exceeded (${ctx.retryCount}) for request. Response status: [${response.status}] ${response.statusText}`));
-                } else {
-                    // Set our retry timeout for {delay} milliseconds.
-                    setTimeout(getCtxCallback(this, retry, ctx), delay);
-                }
-            };
-
-            // send the actual request
-            this._impl.fetch(url, options).then((response) => {
-
-                if (response.status === 429) {
-                    // we have been throttled
-                    setRetry(response);
-                } else {
-                    ctx.resolve(response);
-                }
-
-            }).catch((response: Response) => {
-
-                if (response.status === 503) {
-                    // http status code 503, we can retry this
-                    setRetry(response);
-                } else {
-                    ctx.reject(response);
-                }
-            });
-        };
-
-        return new Promise((resolve, reject) => {
-
-            const retryContext: RetryContext = {
-                attempts: 0,
-                delay: 100,
-                reject: reject,
-                resolve: resolve,
-                retryCount: 7,
-            };
-
-            retry.call(this, retryContext);
-        });
+        const limiter = SPRuntimeConfig.requestLimiter;
+
+        // each attempt waits for the limiter, so a request does not hold its place while waiting to retry
+        const send = (u: string, o: FetchOptions) => limiter === null ? this._impl.fetch(u, o) : limiter.schedule(() => this._impl.fetch(u, o), o.signal);
+
+        return fetchWithRetry(url, options, send, SPRuntimeConfig.retryPolicy);
     }
 
     public get(url: string, options: FetchOptions = {}): Promise<Response> {
@@ -155,11 +100,3 @@ export class SPHttpClient implements RequestClient {
         return this.fetch(url, opts);
     }
 }
-
-interface RetryContext {
-    attempts: number;
-    delay: number;
-    reject: (reason?: any) => void;
-    resolve: (value?: Response | PromiseLike<Response>) => void;
-    retryCount: number;
-}
@@ -5,7 +5,7 @@ import { Web } from "./webs";
 import { ConfigOptions } from "@pnp/common";
 import { UserProfileQuery } from "./userprofiles";
 import { INavigationService, NavigationService } from "./navigation";
-import { SPBatch } from "./batch";
+import { SPBatch, SPBatchOptions } from "./batch";
 import { SocialQuery, SocialMethods } from "./social";
 import { SiteScripts, SiteScriptUtilityMethods } from "./sitescripts";
 import { SiteDesigns, SiteDesignsUtilityMethods } from "./sitedesigns";
@@ -129,9 +129,10 @@ export class SPRest {
     /**
      * Creates a new batch object for use with the SharePointQueryable.addToBatch method
      *
+     * @param options Optional settings controlling how large batches are split into multiple requests
      */
-    public createBatch(): SPBatch {
-        return this.web.createBatch();
+    public createBatch(options?: SPBatchOptions): SPBatch {
+        return this.web.createBatch(options);
     }
 
     /**
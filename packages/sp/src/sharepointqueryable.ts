@@ -11,10 +11,18 @@ import {
     ODataParser,
     ODataQueryable,
     RequestContext,
+    invalidateCacheByUrl,
+    ODataPage,
+    ODataPageParser,
+    PagingOptions,
+    iteratePages,
+    iterateResults,
+    defineAsyncIterator,
 } from "@pnp/odata";
 import { Logger, LogLevel } from "@pnp/logging";
 import { SPBatch } from "./batch";
 import { SPHttpClient } from "./net/sphttpclient";
+import { SPRuntimeConfig } from "./config/splibconfig";
 import { toAbsoluteUrl } from "./utils/toabsoluteurl";
 import { metadata } from "./utils/metadata";
 
@@ -168,6 +176,29 @@ export class SharePointQueryable<GetType = any> extends ODataQueryable<SPBatch,
         return clone;
     }
 
+    /**
+     * Executes the request, removing affected cached values after a successful write if invalidateCacheOnWrite is enabled
+     */
+    protected reqImpl<T>(method: string, options: FetchOptions = {}, parser: ODataParser<T>): Promise<T> {
+
+        const p = super.reqImpl(method, options, parser);
+
+        if (/^get$/i.test(method) || !SPRuntimeConfig.invalidateCacheOnWrite) {
+            return p;
+        }
+
+        // once a write succeeds the cached values for the entity and its parent may be out of date
+        // we don't consider the site itself as a parent, that would remove everything cached for the site
+        const urls = [this.toUrl()];
+        if (/_api\//i.test(this.parentUrl)) {
+            urls.push(this.parentUrl);
+        }
+
+        return p.then(r => Promise.all(urls.map(u => toAbsoluteUrl(u)))
+            .then(absoluteUrls => absoluteUrls.forEach(u => invalidateCacheByUrl(u)))
+            .then(() => r));
+    }
+
     /**
      * Converts the current instance to a request context
      *
@@ -258,6 +289,76 @@ export class SharePointQueryableCollection<GetType = any[]> extends SharePointQu
         this.query.set("$top", top.toString());
         return this;
     }
+
+    /**
+     * Reads this collection one page at a time, the page size is set using top
+     *
+     * @param options Allows paging to resume from the nextUrl of a stored page and to be cancelled
+     */
+    public paged<T = any>(options: PagingOptions = {}): AsyncIterableIterator<ODataPage<T>> {
+        return iteratePages(nextUrl => this.getPage<T>(nextUrl), extend({ signal: this._options.signal }, options));
+    }
+
+    /**
+     * Iterates over each entry in this collection, requesting the pages as they are needed. Where the environment defines Symbol.asyncIterator
+     * the collection itself can also be used with for await
+     *
+     * @param options Allows iteration to resume from the nextUrl of a stored page and to be cancelled
+     */
+    public iterate<T = any>(options: PagingOptions = {}): AsyncIterableIterator<T> {
+        return iterateResults(this.paged<T>(options));
+    }
+
+    /**
+     * Loads the page found at the supplied url, or the first page when the url is null
+     *
+     * @param nextUrl The url of the page to load
+     */
+    protected getPage<T>(nextUrl: string | null): Promise<ODataPage<T>> {
+
+        const url = nextUrl || this.toUrlAndQuery();
+
+        return new SharePointQueryableCollection(url, null).configureFrom(this).get(new ODataPageParser<T>()).then(page => {
+
+            // collections other than list items don't return a next link so we continue using $skip
+            if (page.nextUrl === null) {
+                page.nextUrl = getNextSkipUrl(url, page.results.length);
+            }
+
+            return page;
+        });
+    }
+}
+
+// the iterator is attached at runtime so loading this module does not read Symbol.asyncIterator where it is not defined
+defineAsyncIterator(SharePointQueryableCollection, collection => collection.iterate());
+
+export interface SharePointQueryableCollection<GetType = any[]> {
+    [Symbol.asyncIterator](): AsyncIterator<any>;
+}
+
+/**
+ * Gets the url of the page following the one requested from the supplied url using $top and $skip, null if that was the last page
+ *
+ * @param url The url of the page which was read
+ * @param count The number of results returned for that page
+ */
+function getNextSkipUrl(url: string, count: number): string | null {
+
+    const top = /[?&](?:\$|%24)top=(\d+)/i.exec(url);
+
+    if (top === null || count < 1 || count < parseInt(top[1], 10)) {
+        return null;
+    }
+
+    const skipParam = /([?&](?:\$|%24)skip=)(\d+)/i;
+    const skip = skipParam.exec(url);
+
+    if (skip !== null) {
+        return url.replace(skipParam, `$1${parseInt(skip[2], 10) + count}`);
+    }
+
+    return `${url}${url.indexOf("?") > -1 ? "&" : "?"}$skip=${count}`;
 }
 
 /**
@@ -2,7 +2,7 @@ import { SharePointQueryable, SharePointQueryableInstance, defaultPath } from ".
 import { Web } from "./webs";
 import { UserCustomActions } from "./usercustomactions";
 import { ContextInfo, DocumentLibraryInformation } from "./types";
-import { SPBatch } from "./batch";
+import { SPBatch, SPBatchOptions } from "./batch";
 import { Features } from "./features";
 import { hOP, jsS, extend } from "@pnp/common";
 import { SPHttpClient } from "./net/sphttpclient";
@@ -99,9 +99,10 @@ export class Site extends SharePointQueryableInstance {
     /**
      * Creates a new batch for requests within the context of this site collection
      *
+     * @param options Optional settings controlling how large batches are split into multiple requests
      */
-    public createBatch(): SPBatch {
-        return new SPBatch(this.parentUrl);
+    public createBatch(options?: SPBatchOptions): SPBatch {
+        return new SPBatch(this.parentUrl, options);
     }
 
     /**
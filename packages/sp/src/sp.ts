@@ -37,6 +37,7 @@ export {
 
 export {
     SPBatch,
+    SPBatchOptions,
 } from "./batch";
 
 export * from "./clientsidepages";
@@ -70,6 +71,9 @@ export {
     MoveOperations,
     TemplateFileType,
     ChunkedFileUploadProgressData,
+    ChunkedUploadState,
+    ChunkedUploadStore,
+    ResumableUploadOptions,
     File,
     Files,
 } from "./files";
@@ -82,8 +86,22 @@ export {
     FolderAddResult,
     Folder,
     Folders,
+    CopyConflictBehavior,
+    FolderCopyOptions,
+    FolderCopyProgressData,
 } from "./folders";
 
+export {
+    mirrorDirectory,
+    exportFolder,
+    FolderSyncOptions,
+    FolderSyncProgressData,
+    LocalFileInfo,
+    LocalFileSystem,
+    MirrorDirectoryOptions,
+    SyncConflictBehavior,
+} from "./foldersync";
+
 export {
     SPHttpClient,
 } from "./net/sphttpclient";
@@ -94,6 +112,7 @@ export {
     ItemVersion,
     ItemVersions,
     ItemAddResult,
+    ItemsByIdRangeOptions,
     ItemUpdateResult,
     ItemUpdateResultData,
     PagedItemCollection,
@@ -205,6 +224,10 @@ export {
     extractWebUrl,
 } from "./utils/extractweburl";
 
+export {
+    ChunkedUploadContent,
+} from "./utils/chunkreader";
+
 export {
     UtilityMethod,
     CreateWikiPageResult,
@@ -0,0 +1,285 @@
+import { NodeReadableStream } from "@pnp/odata";
+
+/**
+ * The content types which can be uploaded in chunks
+ */
+export type ChunkedUploadContent = Blob | ArrayBuffer | ArrayBufferView | ReadableStream | NodeReadableStream;
+
+/**
+ * A slice of the content sent in a single request
+ */
+export type Chunk = Blob | ArrayBuffer | ArrayBufferView;
+
+/**
+ * Reads content a chunk at a time
+ */
+export interface ChunkReader {
+
+    /**
+     * The total size of the content in bytes, null if it is not known until the content has been read
+     */
+    readonly size: number | null;
+
+    /**
+     * If true the reader can move back to an earlier position using seek
+     */
+    readonly canSeek: boolean;
+
+    /**
+     * Reads the next chunk of at most the supplied size, an empty chunk once the content has been read
+     *
+     * @param size The maximum size of the chunk in bytes
+     */
+    read(size: number): Promise<Chunk>;
+
+    /**
+     * Determines if any content remains to be read
+     */
+    hasMore(): Promise<boolean>;
+
+    /**
+     * Moves to the supplied position, streams can only move forward by reading and discarding content
+     *
+     * @param position The position in bytes from the start of the content
+     */
+    seek(position: number): Promise<void>;
+}
+
+/**
+ * Gets the size in bytes of the supplied chunk
+ *
+ * @param chunk The chunk to measure
+ */
+export function getChunkSize(chunk: Chunk): number {
+    return typeof Blob !== "undefined" && chunk instanceof Blob ? chunk.size : (<ArrayBuffer | ArrayBufferView>chunk).byteLength;
+}
+
+/**
+ * Gets the size in bytes of the supplied content, null for a stream whose size is not known until it has been read
+ *
+ * @param content The content to measure
+ */
+export function getContentSize(content: ChunkedUploadContent): number | null {
+
+    if (typeof (<ReadableStream>content).getReader === "function" || typeof (<NodeReadableStream>content).on === "function") {
+        return null;
+    }
+
+    return getChunkSize(<Chunk>content);
+}
+
+/**
+ * Creates a reader for the supplied content
+ *
+ * @param content A Blob, ArrayBuffer, typed array such as a Node.js Buffer, WHATWG ReadableStream or Node.js readable stream
+ */
+export function createChunkReader(content: ChunkedUploadContent): ChunkReader {
+
+    if (typeof (<ReadableStream>content).getReader === "function") {
+
+        const reader = (<ReadableStream>content).getReader();
+        return new StreamChunkReader(() => reader.read().then(r => r.done ? null : r.value));
+    }
+
+    if (typeof (<NodeReadableStream>content).on === "function") {
+        return new StreamChunkReader(pullFromNodeStream(<NodeReadableStream>content));
+    }
+
+    if (typeof Blob !== "undefined" && content instanceof Blob) {
+        return new SliceChunkReader(content.size, (start, end) => content.slice(start, end));
+    }
+
+    if (ArrayBuffer.isView(content)) {
+        const view = new Uint8Array(content.buffer, content.byteOffset, content.byteLength);
+        return new SliceChunkReader(view.byteLength, (start, end) => view.subarray(start, end));
+    }
+
+    const buffer = <ArrayBuffer>content;
+    return new SliceChunkReader(buffer.byteLength, (start, end) => buffer.slice(start, end));
+}
+
+/**
+ * Reads content held in memory by slicing it
+ */
+class SliceChunkReader implements ChunkReader {
+
+    public readonly canSeek = true;
+    private _position = 0;
+
+    constructor(public readonly size: number, private _slice: (start: number, end: number) => Chunk) { }
+
+    public read(size: number): Promise<Chunk> {
+
+        const start = this._position;
+        this._position = Math.min(start + size, this.size);
+
+        return Promise.resolve(this._slice(start, this._position));
+    }
+
+    public hasMore(): Promise<boolean> {
+        return Promise.resolve(this._position < this.size);
+    }
+
+    public seek(position: number): Promise<void> {
+        this._position = Math.min(position, this.size);
+        return Promise.resolve();
+    }
+}
+
+/**
+ * Reads a stream, buffering the pieces it produces into chunks of the requested size
+ */
+class StreamChunkReader implements ChunkReader {
+
+    public readonly canSeek = false;
+    public readonly size: number | null = null;
+    private _pieces: Uint8Array[] = [];
+    private _buffered = 0;
+    private _position = 0;
+    private _ended = false;
+
+    /**
+     * @param _pull Gets the next piece of the stream, null once it has ended
+     */
+    constructor(private _pull: () => Promise<Uint8Array | null>) { }
+
+    public read(size: number): Promise<Chunk> {
+
+        return this.fill(size).then(() => {
+
+            const length = Math.min(size, this._buffered);
+            const chunk = new Uint8Array(length);
+            let copied = 0;
+
+            while (copied < length) {
+
+                const piece = this._pieces[0];
+                const count = Math.min(piece.byteLength, length - copied);
+
+                chunk.set(piece.subarray(0, count), copied);
+                copied += count;
+
+                if (count < piece.byteLength) {
+                    this._pieces[0] = piece.subarray(count);
+                } else {
+                    this._pieces.shift();
+                }
+            }
+
+            this._buffered -= length;
+            this._position += length;
+
+            return chunk;
+        });
+    }
+
+    public hasMore(): Promise<boolean> {
+        return this.fill(1).then(() => this._buffered > 0);
+    }
+
+    public seek(position: number): Promise<void> {
+
+        if (position < this._position) {
+            return Promise.reject(Error("A stream cannot be read again from an earlier position."));
+        }
+
+        // we discard the content in pieces so we never hold more than one chunk in memory
+        const skip = (): Promise<void> => {
+
+            if (this._position >= position) {
+                return Promise.resolve();
+            }
+
+            return this.read(Math.min(position - this._position, 1048576)).then(chunk => {
+
+                if (getChunkSize(chunk) < 1) {
+                    throw Error(`The stream ended before position ${position}.`);
+                }
+
+                return skip();
+            });
+        };
+
+        return skip();
+    }
+
+    /**
+     * Pulls pieces from the stream until at least the supplied number of bytes are buffered or it has ended
+     */
+    private fill(size: number): Promise<void> {
+
+        if (this._ended || this._buffered >= size) {
+            return Promise.resolve();
+        }
+
+        return this._pull().then(piece => {
+
+            if (piece === null) {
+                this._ended = true;
+            } else if (piece.byteLength > 0) {
+                this._pieces.push(piece);
+                this._buffered += piece.byteLength;
+            }
+
+            return this.fill(size);
+        });
+    }
+}
+
+/**
+ * Creates a function pulling the pieces of a Node.js stream one at a time, pausing the stream between pulls
+ *
+ * @param stream The stream to read
+ */
+function pullFromNodeStream(stream: NodeReadableStream): () => Promise<Uint8Array | null> {
+
+    const queue: Uint8Array[] = [];
+    let ended = false;
+    let error: any = null;
+    let waiting: () => void = null;
+
+    const wake = () => {
+        if (waiting !== null) {
+            const w = waiting;
+            waiting = null;
+            w();
+        }
+    };
+
+    stream.on("data", (piece: Uint8Array) => {
+        queue.push(piece);
+        stream.pause();
+        wake();
+    });
+
+    stream.on("end", () => {
+        ended = true;
+        wake();
+    });
+
+    stream.on("error", (e: any) => {
+        error = e;
+        wake();
+    });
+
+    stream.pause();
+
+    return () => new Promise<Uint8Array | null>((resolve, reject) => {
+
+        const check = () => {
+
+            if (queue.length > 0) {
+                resolve(queue.shift());
+            } else if (error !== null) {
+                reject(error);
+            } else if (ended) {
+                resolve(null);
+            } else {
+                waiting = check;
+                stream.resume();
+            }
+        };
+
+        check();
+    });
+}
@@ -15,7 +15,7 @@ import { ChangeQuery, StorageEntity, HubSiteData as IHubSiteData } from "./types
 import { SiteUsers, SiteUser, CurrentUser, SiteUserProps } from "./siteusers";
 import { UserCustomActions } from "./usercustomactions";
 import { odataUrlFrom } from "./odata";
-import { SPBatch } from "./batch";
+import { SPBatch, SPBatchOptions } from "./batch";
 import { Features } from "./features";
 import { RelatedItemManger, RelatedItemManagerImpl } from "./relateditems";
 import { AppCatalog } from "./appcatalog";
@@ -261,9 +261,10 @@ export class Web extends SharePointQueryableShareableWeb {
     /**
      * Creates a new batch for requests within the context of this web
      *
+     * @param options Optional settings controlling how large batches are split into multiple requests
      */
-    public createBatch(): SPBatch {
-        return new SPBatch(this.parentUrl);
+    public createBatch(options?: SPBatchOptions): SPBatch {
+        return new SPBatch(this.parentUrl, options);
     }
 
     /**
@@ -0,0 +1,86 @@
+import { expect } from "chai";
+import { sp } from "../";
+import { testSettings } from "../../../test/main";
+import { SPFetchClient } from "@pnp/nodejs";
+import { BatchFetchClient } from "./mock-fetchclient";
+
+describe("Batch splitting", () => {
+
+    let mockFetch: BatchFetchClient;
+
+    beforeEach(() => {
+
+        mockFetch = new BatchFetchClient();
+
+        sp.setup({
+            sp: {
+                fetchClientFactory: () => mockFetch,
+                headers: {
+                    "X-RequestDigest": "test",
+                },
+            },
+        });
+    });
+
+    after(() => {
+        if (testSettings.enableWebTests) {
+            sp.setup({
+                sp: {
+                    fetchClientFactory: () => {
+                        return new SPFetchClient(testSettings.sp.webUrl, testSettings.sp.id, testSettings.sp.secret);
+                    },
+                },
+            });
+        }
+    });
+
+    it("Should send a single $batch request within the limits", () => {
+
+        const batch = sp.createBatch();
+        const requests = [1, 2, 3].map(() => sp.web.inBatch(batch).get());
+
+        return batch.execute().then(() => Promise.all(requests)).then(results => {
+            expect(mockFetch.bodies).to.have.length(1);
+            expect(results).to.deep.eq([{ index: 0 }, { index: 1 }, { index: 2 }]);
+        });
+    });
+
+    it("Should split requests by maxRequests and resolve each request", () => {
+
+        const batch = sp.createBatch({ maxRequests: 2 });
+        const requests = [1, 2, 3, 4, 5].map(() => sp.web.inBatch(batch).get());
+
+        return batch.execute().then(() => Promise.all(requests)).then(results => {
+            expect(mockFetch.bodies).to.have.length(3);
+            expect(results).to.deep.eq([{ index: 0 }, { index: 1 }, { index: 0 }, { index: 1 }, { index: 0 }]);
+        });
+    });
+
+    it("Should split requests by maxPayloadSize", () => {
+
+        const batch = sp.createBatch({ maxConcurrency: 2, maxPayloadSize: 1 });
+        const requests = [1, 2, 3].map(() => sp.web.lists.inBatch(batch).add("Title"));
+
+        return batch.execute().then(() => Promise.all(requests)).then(() => {
+            expect(mockFetch.bodies).to.have.length(3);
+            mockFetch.bodies.forEach(b => expect(b).to.match(/--changeset_.*--/));
+        });
+    });
+
+    it("Should reject only the requests in a failed $batch request", () => {
+
+        const fetch = mockFetch.fetch;
+        let call = 0;
+        mockFetch.fetch = (url, options) => ++call === 2 ? Promise.reject(Error("failed")) : fetch.call(mockFetch, url, options);
+
+        const batch = sp.createBatch({ maxRequests: 1 });
+        const requests = [1, 2, 3].map(() => sp.web.inBatch(batch).get());
+
+        return Promise.all([
+            expect(batch.execute()).to.be.rejectedWith("failed"),
+            expect(requests[0]).to.be.fulfilled,
+            expect(requests[1]).to.be.rejectedWith("failed"),
+            expect(requests[2]).to.be.fulfilled,
+        ]);
+    });
+});
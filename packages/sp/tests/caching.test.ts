@@ -0,0 +1,191 @@
+import { expect } from "chai";
+import { sp } from "../";
+import { testSettings } from "../../../test/main";
+import { SPFetchClient } from "@pnp/nodejs";
+import { FetchOptions } from "@pnp/common";
+import { CountingFetchClient, MockFetchClient } from "./mock-fetchclient";
+
+/**
+ * Mock fetch client answering each request with the number of requests sent so far, tagged with an ETag of that number,
+ * or with 304 Not Modified when the request's If-None-Match header matches the current ETag
+ */
+class VersionFetchClient extends MockFetchClient {
+
+    public count = 0;
+    public version = 1;
+    public conditions: string[] = [];
+
+    public fetch(_: string, options: FetchOptions): Promise<Response> {
+
+        this.count++;
+        const condition = new Headers(options.headers).get("If-None-Match");
+        this.conditions.push(condition);
+
+        if (condition === `"${this.version}"`) {
+            return Promise.resolve(new Response(null, { status: 304 }));
+        }
+
+        return Promise.resolve(new Response(JSON.stringify({ count: this.count }), { headers: { ETag: `"${this.version}"` }, status: 200 }));
+    }
+}
+
+describe("Cache invalidation", () => {
+
+    const mockFetch = new CountingFetchClient();
+    const list = () => sp.web.lists.getByTitle("CacheInvalidation");
+
+    const setup = (invalidateCacheOnWrite: boolean) => {
+        sp.setup({
+            sp: {
+                fetchClientFactory: () => mockFetch,
+                headers: {
+                    "X-RequestDigest": "test",
+                },
+                invalidateCacheOnWrite,
+            },
+        });
+    };
+
+    beforeEach(() => {
+        setup(false);
+        mockFetch.count = 0;
+        return list().invalidateCache();
+    });
+
+    after(() => {
+        if (testSettings.enableWebTests) {
+            sp.setup({
+                sp: {
+                    fetchClientFactory: () => {
+                        return new SPFetchClient(testSettings.sp.webUrl, testSettings.sp.id, testSettings.sp.secret);
+                    },
+                },
+            });
+        }
+    });
+
+    it("Should return a cached value without sending a request", () => {
+        return list().items.usingCaching().get()
+            .then(() => list().items.usingCaching().get())
+            .then(() => expect(mockFetch.count).to.eq(1));
+    });
+
+    it("Should send the request again once the cache is invalidated for a parent url", () => {
+        return list().items.top(5).usingCaching().get()
+            .then(() => list().invalidateCache())
+            .then(() => list().items.top(5).usingCaching().get())
+            .then(() => expect(mockFetch.count).to.eq(2));
+    });
+
+    it("Should not remove cached values of a sibling whose url starts with the invalidated url", () => {
+        return list().items.getById(10).usingCaching().get()
+            .then(() => list().items.getById(1).invalidateCache())
+            .then(() => list().items.getById(10).usingCaching().get())
+            .then(() => expect(mockFetch.count).to.eq(1));
+    });
+
+    it("Should not remove cached values on write by default", () => {
+        return list().items.usingCaching().get()
+            .then(() => list().items.getById(1).delete())
+            .then(() => list().items.usingCaching().get())
+            .then(() => expect(mockFetch.count).to.eq(2));
+    });
+
+    it("Should remove cached values of the parent collection on write when invalidateCacheOnWrite is enabled", () => {
+        setup(true);
+        return list().items.usingCaching().get()
+            .then(() => list().items.getById(1).delete())
+            .then(() => list().items.usingCaching().get())
+            .then(() => expect(mockFetch.count).to.eq(3));
+    });
+});
+
+describe("Caching modes", () => {
+
+    const mockFetch = new VersionFetchClient();
+    let key = 0;
+    const past = () => new Date((new Date()).getTime() - 1000);
+    const wait = () => new Promise(resolve => setTimeout(resolve, 10));
+
+    before(() => {
+        sp.setup({
+            sp: {
+                fetchClientFactory: () => mockFetch,
+            },
+        });
+    });
+
+    beforeEach(() => {
+        key++;
+        mockFetch.count = 0;
+        mockFetch.version = 1;
+        mockFetch.conditions = [];
+    });
+
+    after(() => {
+        if (testSettings.enableWebTests) {
+            sp.setup({
+                sp: {
+                    fetchClientFactory: () => {
+                        return new SPFetchClient(testSettings.sp.webUrl, testSettings.sp.id, testSettings.sp.secret);
+                    },
+                },
+            });
+        }
+    });
+
+    it("Should not refresh a fresh value in stale-while-revalidate mode", () => {
+
+        const get = () => sp.web.usingCaching({ key: `swr${key}`, mode: "stale-while-revalidate" }).get();
+
+        return get().then(get).then(wait).then(() => expect(mockFetch.count).to.eq(1));
+    });
+
+    it("Should return a stale value and refresh it once in the background in stale-while-revalidate mode", () => {
+
+        const get = () => sp.web.usingCaching({ key: `swr${key}`, mode: "stale-while-revalidate" }).get();
+
+        // the first value is cached as already stale
+        return sp.web.usingCaching({ expiration: past(), key: `swr${key}`, mode: "stale-while-revalidate" }).get().then(() => {
+            return Promise.all([get(), get()]);
+        }).then(results => {
+
+            expect(results.map(r => r.count)).to.deep.eq([1, 1]);
+            return wait();
+
+        }).then(() => {
+
+            expect(mockFetch.count).to.eq(2);
+            return get();
+
+        }).then(result => {
+
+            expect(result.count).to.eq(2);
+            return wait();
+
+        }).then(() => expect(mockFetch.count).to.eq(2));
+    });
+
+    it("Should return the cached value when the server responds not modified in etag mode", () => {
+
+        const get = () => sp.web.usingCaching({ key: `etag${key}`, mode: "etag" }).get();
+
+        return get().then(get).then(result => {
+            expect(result.count).to.eq(1);
+            expect(mockFetch.conditions).to.deep.eq([null, "\"1\""]);
+        });
+    });
+
+    it("Should replace the cached value when it has changed in etag mode", () => {
+
+        const get = () => sp.web.usingCaching({ key: `etag${key}`, mode: "etag" }).get();
+
+        return get().then(() => mockFetch.version = 2).then(get).then(result => {
+            expect(result.count).to.eq(2);
+            return get();
+        }).then(result => {
+            expect(result.count).to.eq(2);
+            expect(mockFetch.conditions).to.deep.eq([null, "\"1\"", "\"2\""]);
+        });
+    });
+});
@@ -0,0 +1,70 @@
+import { expect } from "chai";
+import { sp } from "../";
+import { testSettings } from "../../../test/main";
+import { SPFetchClient } from "@pnp/nodejs";
+import { CountingFetchClient } from "./mock-fetchclient";
+
+describe("Cancellation", () => {
+
+    const mockFetch = new CountingFetchClient();
+    const aborted: AbortSignal = <any>{ aborted: true };
+    const notAborted: AbortSignal = <any>{ aborted: false };
+
+    before(() => {
+        sp.setup({
+            sp: {
+                fetchClientFactory: () => mockFetch,
+                headers: {
+                    "X-RequestDigest": "test",
+                },
+            },
+        });
+    });
+
+    beforeEach(() => {
+        mockFetch.count = 0;
+    });
+
+    after(() => {
+        if (testSettings.enableWebTests) {
+            sp.setup({
+                sp: {
+                    fetchClientFactory: () => {
+                        return new SPFetchClient(testSettings.sp.webUrl, testSettings.sp.id, testSettings.sp.secret);
+                    },
+                },
+            });
+        }
+    });
+
+    it("Should reject with a CancellationError and not send a request when the signal is aborted", () => {
+        return sp.web.get(undefined, { signal: aborted }).then(() => {
+            throw Error("Request should have been cancelled");
+        }, e => {
+            expect(e.isCancellationError).to.be.true;
+            expect(mockFetch.count).to.eq(0);
+        });
+    });
+
+    it("Should apply a signal supplied using configure to derived requests", () => {
+        return expect(sp.web.configure({ signal: aborted }).lists.get()).to.be.rejectedWith("cancelled");
+    });
+
+    it("Should send the request when the signal is not aborted", () => {
+        return sp.web.get(undefined, { signal: notAborted }).then(() => {
+            expect(mockFetch.count).to.eq(1);
+        });
+    });
+
+    it("Should reject the batch and its requests when executed with an aborted signal", () => {
+        const batch = sp.createBatch();
+        const request = sp.web.inBatch(batch).get();
+
+        return Promise.all([
+            expect(batch.execute(aborted)).to.be.rejectedWith("cancelled"),
+            expect(request).to.be.rejectedWith("cancelled"),
+        ]).then(() => {
+            expect(mockFetch.count).to.eq(0);
+        });
+    });
+});
@@ -0,0 +1,260 @@
+import { expect } from "chai";
+import { Readable } from "stream";
+import { sp, ChunkedFileUploadProgressData, ChunkedUploadStore } from "../";
+import { FetchOptions } from "@pnp/common";
+import { testSettings } from "../../../test/main";
+import { SPFetchClient } from "@pnp/nodejs";
+import { MockFetchClient } from "./mock-fetchclient";
+
+/**
+ * Mock fetch client which tracks upload sessions in the same way as SharePoint, rejecting fragments sent at the wrong offset
+ */
+class UploadFetchClient extends MockFetchClient {
+
+    public calls: string[] = [];
+    public sessions = new Map<string, number>();
+    public failures = 0;
+
+    public fetch(url: string, options: FetchOptions): Promise<Response> {
+
+        const body: any = options.body;
+        const length = body === undefined ? 0 : body.byteLength !== undefined ? body.byteLength : body.size;
+        const match = /(startUpload|continueUpload|finishUpload|cancelUpload)\(uploadId=guid'([^']+)'(?:,fileOffset=(\d+))?\)/.exec(url);
+
+        if (match === null) {
+            this.calls.push("add");
+            return this.respond(200, {});
+        }
+
+        const [, method, uploadId, offset] = match;
+        this.calls.push(offset === undefined ? method : `${method}:${offset}:${length}`);
+
+        if (method === "cancelUpload") {
+            this.sessions.delete(uploadId);
+            return this.respond(200, {});
+        }
+
+        if (method === "startUpload") {
+            this.sessions.set(uploadId, length);
+            return this.respond(200, { d: { StartUpload: length.toString() } });
+        }
+
+        if (this.failures > 0) {
+            this.failures--;
+            return this.respond(500, { error: "failed" });
+        }
+
+        if (this.sessions.get(uploadId) !== parseInt(offset, 10)) {
+            return this.respond(400, { error: "invalid offset" });
+        }
+
+        const total = this.sessions.get(uploadId) + length;
+
+        if (method === "continueUpload") {
+            this.sessions.set(uploadId, total);
+            return this.respond(200, { d: { ContinueUpload: total.toString() } });
+        }
+
+        this.sessions.delete(uploadId);
+        return this.respond(200, { d: { Length: total, ServerRelativeUrl: "/sites/dev/Shared Documents/test.txt" } });
+    }
+
+    private respond(status: number, body: any): Promise<Response> {
+        return Promise.resolve(new Response(JSON.stringify(body), { status }));
+    }
+}
+
+class MemoryUploadStore implements ChunkedUploadStore {
+
+    public values = new Map<string, string>();
+
+    public getItem(key: string): string | null {
+        return this.values.has(key) ? this.values.get(key) : null;
+    }
+
+    public setItem(key: string, value: string): void {
+        this.values.set(key, value);
+    }
+
+    public removeItem(key: string): void {
+        this.values.delete(key);
+    }
+}
+
+describe("Chunked uploads", () => {
+
+    const mockFetch = new UploadFetchClient();
+    const file = () => sp.web.getFileByServerRelativeUrl("/sites/dev/Shared Documents/test.txt");
+    const content = (size: number) => Buffer.alloc(size, 1);
+    const stream = (sizes: number[]) => {
+        const readable = new Readable({ read: () => null });
+        sizes.forEach(n => readable.push(content(n)));
+        readable.push(null);
+        return readable;
+    };
+
+    before(() => {
+        sp.setup({
+            sp: {
+                fetchClientFactory: () => mockFetch,
+                headers: {
+                    "X-RequestDigest": "test",
+                },
+            },
+        });
+    });
+
+    beforeEach(() => {
+        mockFetch.calls = [];
+        mockFetch.failures = 0;
+    });
+
+    after(() => {
+        if (testSettings.enableWebTests) {
+            sp.setup({
+                sp: {
+                    fetchClientFactory: () => {
+                        return new SPFetchClient(testSettings.sp.webUrl, testSettings.sp.id, testSettings.sp.secret);
+                    },
+                },
+            });
+        }
+    });
+
+    it("Should not send an empty block when the size divides evenly into chunks", () => {
+
+        const blob: any = { size: 20, slice: (start: number, end?: number) => content(20).slice(start, end) };
+
+        return file().setContentChunked(blob, undefined, 10).then(() => {
+            expect(mockFetch.calls).to.deep.eq(["startUpload", "finishUpload:10:10"]);
+        });
+    });
+
+    it("Should upload a buffer in chunks, reporting progress", () => {
+
+        const stages: ChunkedFileUploadProgressData[] = [];
+
+        return file().setContentResumable(content(25), { chunkSize: 10, progress: d => stages.push(d) }).then(result => {
+            expect(mockFetch.calls).to.deep.eq(["startUpload", "continueUpload:10:10", "finishUpload:20:5"]);
+            expect(stages.map(s => s.stage)).to.deep.eq(["starting", "continue", "finishing"]);
+            expect(stages[2].totalBlocks).to.eq(3);
+            expect(result.data.Length).to.eq(25);
+        });
+    });
+
+    it("Should upload a stream in chunks", () => {
+
+        return file().setContentResumable(stream([7, 7, 7, 4]), { chunkSize: 10 }).then(result => {
+            expect(mockFetch.calls).to.deep.eq(["startUpload", "continueUpload:10:10", "finishUpload:20:5"]);
+            expect(result.data.Length).to.eq(25);
+        });
+    });
+
+    it("Should retry a failed chunk", () => {
+
+        mockFetch.failures = 1;
+
+        return file().setContentResumable(content(25), { chunkSize: 10, retryDelay: 1 }).then(() => {
+            expect(mockFetch.calls).to.deep.eq(["startUpload", "continueUpload:10:10", "continueUpload:10:10", "finishUpload:20:5"]);
+        });
+    });
+
+    it("Should resume an interrupted upload from the stored offset", () => {
+
+        const store = new MemoryUploadStore();
+        mockFetch.failures = 1;
+
+        return file().setContentResumable(content(25), { chunkSize: 10, maxAttempts: 1, store }).then(() => {
+            throw Error("The upload should have failed");
+        }, () => {
+
+            const state = JSON.parse(store.getItem(file().toUrl()));
+            expect(state.offset).to.eq(10);
+            mockFetch.calls = [];
+
+            return file().setContentResumable(content(25), { chunkSize: 10, store });
+
+        }).then(() => {
+            expect(mockFetch.calls).to.deep.eq(["continueUpload:10:10", "finishUpload:20:5"]);
+            expect(store.values.size).to.eq(0);
+        });
+    });
+
+    it("Should start again when the stored upload cannot be resumed", () => {
+
+        const store = new MemoryUploadStore();
+        store.setItem(file().toUrl(), JSON.stringify({ chunkSize: 10, fileSize: 25, offset: 10, uploadId: "expired" }));
+
+        return file().setContentResumable(content(25), { chunkSize: 10, store }).then(() => {
+            expect(mockFetch.calls).to.deep.eq(["continueUpload:10:10", "cancelUpload", "startUpload", "continueUpload:10:10", "finishUpload:20:5"]);
+        });
+    });
+
+    it("Should only save the state of a stream upload which has a content id", () => {
+
+        const store = new MemoryUploadStore();
+        mockFetch.failures = 1;
+
+        return file().setContentResumable(stream([10, 10, 5]), { chunkSize: 10, maxAttempts: 1, store }).catch(() => {
+
+            expect(store.values.size).to.eq(0);
+            mockFetch.failures = 1;
+            return file().setContentResumable(stream([10, 10, 5]), { chunkSize: 10, contentId: "v1", maxAttempts: 1, store });
+
+        }).then(() => {
+            throw Error("The upload should have failed");
+        }, () => {
+            expect(JSON.parse(store.getItem(file().toUrl()))).to.include({ contentId: "v1", offset: 10 });
+        });
+    });
+
+    it("Should not resume a stream upload with a different content id", () => {
+
+        const store = new MemoryUploadStore();
+        store.setItem(file().toUrl(), JSON.stringify({ chunkSize: 10, contentId: "v1", fileSize: null, offset: 10, uploadId: "other" }));
+
+        return file().setContentResumable(stream([10, 10, 5]), { chunkSize: 10, contentId: "v2", store }).then(() => {
+            expect(mockFetch.calls).to.deep.eq(["startUpload", "continueUpload:10:10", "finishUpload:20:5"]);
+        });
+    });
+
+    it("Should remove the stored state when a stream upload cannot be resumed", () => {
+
+        const store = new MemoryUploadStore();
+        store.setItem(file().toUrl(), JSON.stringify({ chunkSize: 10, contentId: "v1", fileSize: null, offset: 10, uploadId: "expired" }));
+
+        return file().setContentResumable(stream([10, 10, 5]), { chunkSize: 10, contentId: "v1", store }).then(() => {
+            throw Error("The upload should have failed");
+        }, () => {
+            expect(mockFetch.calls).to.deep.eq(["continueUpload:10:10"]);
+            expect(store.values.size).to.eq(0);
+        });
+    });
+
+    it("Should not add the file again when resuming through addResumable", () => {
+
+        const store = new MemoryUploadStore();
+        const files = sp.web.getFolderByServerRelativeUrl("/sites/dev/Shared Documents").files;
+        mockFetch.failures = 1;
+
+        return files.addResumable("test.txt", content(25), { chunkSize: 10, maxAttempts: 1, store }).catch(() => {
+
+            mockFetch.calls = [];
+            return files.addResumable("test.txt", content(25), { chunkSize: 10, store });
+
+        }).then(() => {
+            expect(mockFetch.calls).to.deep.eq(["continueUpload:10:10", "finishUpload:20:5"]);
+        });
+    });
+
+    it("Should add the file when the stored upload cannot be resumed", () => {
+
+        const store = new MemoryUploadStore();
+        const files = sp.web.getFolderByServerRelativeUrl("/sites/dev/Shared Documents").files;
+        store.setItem(files.getByName("test.txt").toUrl(), JSON.stringify({ chunkSize: 5, fileSize: 25, offset: 10, uploadId: "other" }));
+
+        return files.addResumable("test.txt", content(25), { chunkSize: 10, store }, false).then(() => {
+            expect(mockFetch.calls).to.deep.eq(["add", "startUpload", "continueUpload:10:10", "finishUpload:20:5"]);
+        });
+    });
+});
@@ -0,0 +1,78 @@
+import { expect } from "chai";
+import { sp } from "../";
+import { testSettings } from "../../../test/main";
+import { SPFetchClient } from "@pnp/nodejs";
+import { TextParser } from "@pnp/odata";
+import { CountingFetchClient } from "./mock-fetchclient";
+
+describe("Request deduplication", () => {
+
+    const mockFetch = new CountingFetchClient();
+
+    before(() => {
+        sp.setup({
+            enableRequestDeduplication: true,
+            sp: {
+                fetchClientFactory: () => mockFetch,
+            },
+        });
+    });
+
+    beforeEach(() => {
+        mockFetch.count = 0;
+    });
+
+    after(() => {
+        sp.setup({
+            enableRequestDeduplication: false,
+        });
+        if (testSettings.enableWebTests) {
+            sp.setup({
+                sp: {
+                    fetchClientFactory: () => {
+                        return new SPFetchClient(testSettings.sp.webUrl, testSettings.sp.id, testSettings.sp.secret);
+                    },
+                },
+            });
+        }
+    });
+
+    it("Should send a single request for identical concurrent GETs", () => {
+        return Promise.all([sp.web.currentUser.get(), sp.web.currentUser.get()]).then(([u1, u2]) => {
+            expect(mockFetch.count).to.eq(1);
+            expect(u1).to.deep.eq(u2);
+        });
+    });
+
+    it("Should give each caller its own copy of the result", () => {
+        return Promise.all([sp.web.currentUser.get(), sp.web.currentUser.get()]).then(([u1, u2]) => {
+            u1.Title = "Changed";
+            expect(u1).to.not.eq(u2);
+            expect(u2.Title).to.be.undefined;
+        });
+    });
+
+    it("Should send separate requests when only one wraps its parser for caching", () => {
+        return Promise.all([sp.web.currentUser.get(), sp.web.currentUser.usingCaching({ key: "dedupe" }).get()]).then(() => {
+            expect(mockFetch.count).to.eq(2);
+        });
+    });
+
+    it("Should send separate requests for different urls", () => {
+        return Promise.all([sp.web.currentUser.get(), sp.web.currentUser.select("Title").get()]).then(() => {
+            expect(mockFetch.count).to.eq(2);
+        });
+    });
+
+    it("Should send separate requests for different parsers", () => {
+        return Promise.all([sp.web.currentUser.get(), sp.web.currentUser.get(new TextParser())]).then(() => {
+            expect(mockFetch.count).to.eq(2);
+        });
+    });
+
+    it("Should send the request again once the first has completed", () => {
+        return sp.web.currentUser.get().then(() => sp.web.currentUser.get()).then(() => {
+            expect(mockFetch.count).to.eq(2);
+        });
+    });
+});
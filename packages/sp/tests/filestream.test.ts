@@ -0,0 +1,136 @@
+import { expect } from "chai";
+import { Readable } from "stream";
+import { sp } from "../";
+import { FetchOptions } from "@pnp/common";
+import { StreamProgressData } from "@pnp/odata";
+import { testSettings } from "../../../test/main";
+import { SPFetchClient } from "@pnp/nodejs";
+import { MockFetchClient } from "./mock-fetchclient";
+
+/**
+ * Mock fetch client which answers with the part of a ten byte file described by the Range header
+ */
+class RangeFetchClient extends MockFetchClient {
+
+    public headers: Headers;
+    public ignoreRange = false;
+
+    public fetch(_0: string, options: FetchOptions): Promise<Response> {
+
+        this.headers = <Headers>options.headers;
+
+        const content = Buffer.from("0123456789");
+        const range = /bytes=(\d+)-(\d*)/.exec(this.headers.get("Range") || "");
+        const body = new Readable({ read: () => null });
+
+        if (range === null || this.ignoreRange) {
+            body.push(content);
+            body.push(null);
+            return Promise.resolve(new Response(<any>body, { headers: { "Content-Length": "10" }, status: 200 }));
+        }
+
+        const start = parseInt(range[1], 10);
+        const end = range[2] === "" ? 9 : parseInt(range[2], 10);
+
+        // send the range in two pieces so we can see progress as it is read
+        body.push(content.slice(start, start + 2));
+        body.push(content.slice(start + 2, end + 1));
+        body.push(null);
+
+        return Promise.resolve(new Response(<any>body, { headers: { "Content-Range": `bytes ${start}-${end}/10` }, status: 206 }));
+    }
+}
+
+describe("File streams", () => {
+
+    const mockFetch = new RangeFetchClient();
+    const file = () => sp.web.getFileByServerRelativeUrl("/sites/dev/Shared Documents/test.txt");
+
+    const read = (stream: any): Promise<string> => new Promise((resolve, reject) => {
+        const pieces: Buffer[] = [];
+        stream.on("data", (piece: Buffer) => pieces.push(piece));
+        stream.on("end", () => resolve(Buffer.concat(pieces).toString()));
+        stream.on("error", reject);
+    });
+
+    before(() => {
+        sp.setup({
+            sp: {
+                fetchClientFactory: () => mockFetch,
+                headers: {
+                    "X-RequestDigest": "test",
+                },
+            },
+        });
+    });
+
+    beforeEach(() => {
+        mockFetch.ignoreRange = false;
+    });
+
+    after(() => {
+        if (testSettings.enableWebTests) {
+            sp.setup({
+                sp: {
+                    fetchClientFactory: () => {
+                        return new SPFetchClient(testSettings.sp.webUrl, testSettings.sp.id, testSettings.sp.secret);
+                    },
+                },
+            });
+        }
+    });
+
+    it("Should return the content as a stream", () => {
+
+        return file().getStream().then(read).then(text => {
+            expect(text).to.eq("0123456789");
+            expect(mockFetch.headers.has("Range")).to.be.false;
+        });
+    });
+
+    it("Should request a range and report progress from its start", () => {
+
+        const progress: StreamProgressData[] = [];
+
+        return file().getStream({ progress: p => progress.push(p), start: 4 }).then(read).then(text => {
+            expect(text).to.eq("456789");
+            expect(mockFetch.headers.get("Range")).to.eq("bytes=4-");
+            expect(progress).to.deep.eq([{ loaded: 6, total: 10 }, { loaded: 10, total: 10 }]);
+        });
+    });
+
+    it("Should report progress while the stream is read later", () => {
+
+        const progress: StreamProgressData[] = [];
+
+        return file().getStream({ progress: p => progress.push(p) })
+            .then(stream => new Promise(resolve => setTimeout(() => resolve(stream), 10)))
+            .then(read).then(text => {
+                expect(text).to.eq("0123456789");
+                expect(progress).to.deep.eq([{ loaded: 10, total: 10 }]);
+            });
+    });
+
+    it("Should not cache a stream", () => {
+
+        return file().usingCaching().getStream().then(read)
+            .then(() => file().usingCaching().getStream())
+            .then(read).then(text => {
+                expect(text).to.eq("0123456789");
+            });
+    });
+
+    it("Should request a range with an end", () => {
+
+        return file().getStream({ end: 5, start: 2 }).then(read).then(text => {
+            expect(text).to.eq("2345");
+            expect(mockFetch.headers.get("Range")).to.eq("bytes=2-5");
+        });
+    });
+
+    it("Should reject when the server ignores the requested range", () => {
+
+        mockFetch.ignoreRange = true;
+        return expect(file().getStream({ start: 4 })).to.be.rejectedWith("The requested range was not returned");
+    });
+});
@@ -0,0 +1,232 @@
+import { expect } from "chai";
+import { sp, Web, FolderCopyProgressData } from "../";
+import { FetchOptions } from "@pnp/common";
+import { testSettings } from "../../../test/main";
+import { SPFetchClient } from "@pnp/nodejs";
+import { MockFetchClient } from "./mock-fetchclient";
+
+/**
+ * Mock fetch client answering the requests made to copy a folder holding one file and an empty sub folder between two sites
+ */
+class CopyFetchClient extends MockFetchClient {
+
+    public calls: string[] = [];
+    public bodies: any[] = [];
+    public moveCopyUtilStatus = 200;
+    public srcPath = "/sites/dev/Shared Documents/src";
+    public destFiles: string[] = [];
+
+    public fetch(url: string, options: FetchOptions): Promise<Response> {
+
+        const method = options.method || "GET";
+        const path = decodeURIComponent(url.replace("https://contoso.sharepoint.com", ""));
+        this.calls.push(`${new Headers(options.headers).get("X-HTTP-Method") || method} ${path}`);
+        this.bodies.push(options.body);
+
+        if (/MoveCopyUtil/.test(url)) {
+            return this.respond(this.moveCopyUtilStatus, {});
+        }
+
+        if (/getweburlfrompageurl/.test(url)) {
+            return this.respond(200, { GetWebUrlFromPageUrl: "https://contoso.sharepoint.com/sites/other" });
+        }
+
+        if (/\$value$/.test(url)) {
+            return Promise.resolve(new Response("abc", { status: 200 }));
+        }
+
+        if (method === "POST") {
+            return this.respond(200, {});
+        }
+
+        if (/\/sites\/other/.test(path)) {
+            return this.respond(200, { value: this.destFiles.map(Name => ({ Name })) });
+        }
+
+        if (/\/folders\('[^']+'\)\/(files|folders)/.test(path)) {
+            return this.respond(200, { value: [] });
+        }
+
+        if (/\/files\?/.test(path)) {
+            return this.respond(200, { value: [{ Length: "3", Name: "a.txt" }] });
+        }
+
+        if (/\/folders\?/.test(path)) {
+            return this.respond(200, { value: [{ Name: "Forms" }, { Name: "sub" }] });
+        }
+
+        return this.respond(200, { ServerRelativeUrl: this.srcPath });
+    }
+
+    private respond(status: number, body: any): Promise<Response> {
+        return Promise.resolve(new Response(JSON.stringify(body), { status }));
+    }
+}
+
+describe("Folder copy", () => {
+
+    const mockFetch = new CopyFetchClient();
+    const destUrl = "https://contoso.sharepoint.com/sites/other/Shared Documents/dest";
+    const folder = () => new Web("https://contoso.sharepoint.com/sites/dev").getFolderByServerRelativeUrl(mockFetch.srcPath);
+    const summarize = (stages: FolderCopyProgressData[]) => stages.map(s => `${s.action} ${s.type} ${s.destUrl.replace(destUrl, "")}`);
+
+    before(() => {
+        sp.setup({
+            sp: {
+                fetchClientFactory: () => mockFetch,
+                headers: {
+                    "X-RequestDigest": "test",
+                },
+            },
+        });
+    });
+
+    beforeEach(() => {
+        mockFetch.calls = [];
+        mockFetch.bodies = [];
+        mockFetch.moveCopyUtilStatus = 200;
+        mockFetch.srcPath = "/sites/dev/Shared Documents/src";
+        mockFetch.destFiles = [];
+    });
+
+    after(() => {
+        if (testSettings.enableWebTests) {
+            sp.setup({
+                sp: {
+                    fetchClientFactory: () => {
+                        return new SPFetchClient(testSettings.sp.webUrl, testSettings.sp.id, testSettings.sp.secret);
+                    },
+                },
+            });
+        }
+    });
+
+    it("Should copy the folder on the server with SP.MoveCopyUtil", () => {
+
+        const stages: FolderCopyProgressData[] = [];
+
+        return folder().copyTo(destUrl, { progress: d => stages.push(d) }).then(() => {
+
+            expect(mockFetch.calls[1]).to.eq("POST /sites/dev/_api/SP.MoveCopyUtil.CopyFolder()");
+            expect(JSON.parse(mockFetch.bodies[1])).to.deep.eq({
+                destUrl,
+                srcUrl: "https://contoso.sharepoint.com/sites/dev/Shared Documents/src",
+            });
+            expect(summarize(stages)).to.deep.eq(["copied folder "]);
+        });
+    });
+
+    it("Should copy each file to the destination web when SP.MoveCopyUtil fails", () => {
+
+        const stages: FolderCopyProgressData[] = [];
+        mockFetch.moveCopyUtilStatus = 500;
+
+        return folder().copyTo(destUrl, { progress: d => stages.push(d) }).then(() => {
+
+            expect(mockFetch.calls).to.include("POST /sites/other/_api/web/folders/add('/sites/other/Shared Documents/dest')");
+            expect(mockFetch.calls).to.include(
+                "POST /sites/other/_api/web/getFolderByServerRelativeUrl('/sites/other/Shared Documents/dest')/files/add(overwrite=true,url='a.txt')");
+            expect(mockFetch.bodies[mockFetch.calls.findIndex(c => /add\(overwrite/.test(c))].byteLength).to.eq(3);
+            expect(summarize(stages)).to.deep.eq(["created folder ", "copied file /a.txt", "created folder /Forms", "created folder /sub"]);
+        });
+    });
+
+    it("Should not copy the forms folder of a library", () => {
+
+        const stages: FolderCopyProgressData[] = [];
+        mockFetch.srcPath = "/sites/dev/Shared Documents";
+
+        return folder().copyTo(destUrl, { progress: d => stages.push(d), useMoveCopyUtil: false }).then(() => {
+            expect(mockFetch.calls.filter(c => /MoveCopyUtil/.test(c)).length).to.eq(0);
+            expect(summarize(stages)).to.deep.eq(["created folder ", "copied file /a.txt", "created folder /sub"]);
+        });
+    });
+
+    it("Should skip files which already exist", () => {
+
+        const stages: FolderCopyProgressData[] = [];
+        mockFetch.destFiles = ["A.txt"];
+
+        return folder().copyTo(destUrl, { conflict: "skip", progress: d => stages.push(d), useMoveCopyUtil: false }).then(() => {
+            expect(mockFetch.calls.filter(c => /\$value|files\/add/.test(c)).length).to.eq(0);
+            expect(summarize(stages)).to.deep.eq(["created folder ", "skipped file /a.txt", "created folder /Forms", "created folder /sub"]);
+        });
+    });
+
+    it("Should reject when a file already exists and conflicts fail", () => {
+
+        mockFetch.destFiles = ["a.txt"];
+
+        return folder().copyTo(destUrl, { conflict: "fail", useMoveCopyUtil: false }).then(() => {
+            throw Error("The copy should have failed");
+        }, e => {
+            expect(e.message).to.eq(`The file ${destUrl}/a.txt already exists.`);
+        });
+    });
+
+    it("Should not use SP.MoveCopyUtil unless existing files are overwritten", () => {
+
+        const stages: FolderCopyProgressData[] = [];
+        mockFetch.destFiles = ["a.txt"];
+
+        return folder().copyTo(destUrl, { conflict: "skip", progress: d => stages.push(d) }).then(() => {
+            expect(mockFetch.calls.filter(c => /MoveCopyUtil/.test(c)).length).to.eq(0);
+            expect(summarize(stages)).to.deep.eq(["created folder ", "skipped file /a.txt", "created folder /Forms", "created folder /sub"]);
+        });
+    });
+
+    it("Should escape the destination url", () => {
+
+        return folder().copyTo(`${destUrl}/O'Brien`, { useMoveCopyUtil: false }).then(() => {
+            expect(mockFetch.calls[1]).to.eq(
+                "GET /sites/dev/_api/sp.web.getweburlfrompageurl(@v)?@v='https://contoso.sharepoint.com/sites/other/Shared Documents/dest/O''Brien'");
+            expect(mockFetch.calls[2]).to.eq("POST /sites/other/_api/web/folders/add('/sites/other/Shared Documents/dest/O''Brien')");
+        });
+    });
+
+    it("Should move the folder on the server with SP.MoveCopyUtil", () => {
+
+        const stages: FolderCopyProgressData[] = [];
+
+        return folder().moveTo(destUrl, { progress: d => stages.push(d) }).then(() => {
+            expect(mockFetch.calls[1]).to.eq("POST /sites/dev/_api/SP.MoveCopyUtil.MoveFolder()");
+            expect(summarize(stages)).to.deep.eq(["moved folder "]);
+        });
+    });
+
+    it("Should delete each file and folder once moved when SP.MoveCopyUtil fails", () => {
+
+        const stages: FolderCopyProgressData[] = [];
+        mockFetch.moveCopyUtilStatus = 500;
+
+        return folder().moveTo(destUrl, { progress: d => stages.push(d) }).then(() => {
+            expect(mockFetch.calls.filter(c => /^DELETE/.test(c))).to.deep.eq([
+                "DELETE /sites/dev/_api/web/getFolderByServerRelativeUrl('/sites/dev/Shared Documents/src')/files('a.txt')",
+                "DELETE /sites/dev/_api/web/getFolderByServerRelativeUrl('/sites/dev/Shared Documents/src')/folders('Forms')",
+                "DELETE /sites/dev/_api/web/getFolderByServerRelativeUrl('/sites/dev/Shared Documents/src')/folders('sub')",
+                "DELETE /sites/dev/_api/web/getFolderByServerRelativeUrl('/sites/dev/Shared Documents/src')",
+            ]);
+            expect(summarize(stages)).to.deep.eq([
+                "created folder ",
+                "moved file /a.txt",
+                "created folder /Forms",
+                "moved folder /Forms",
+                "created folder /sub",
+                "moved folder /sub",
+                "moved folder ",
+            ]);
+        });
+    });
+
+    it("Should keep the source folders holding files which were skipped when moving", () => {
+
+        mockFetch.destFiles = ["a.txt"];
+
+        return folder().moveTo(destUrl, { conflict: "skip" }).then(() => {
+            expect(mockFetch.calls.filter(c => /^DELETE/.test(c))).to.deep.eq([
+                "DELETE /sites/dev/_api/web/getFolderByServerRelativeUrl('/sites/dev/Shared Documents/src')/folders('Forms')",
+                "DELETE /sites/dev/_api/web/getFolderByServerRelativeUrl('/sites/dev/Shared Documents/src')/folders('sub')",
+            ]);
+        });
+    });
+});
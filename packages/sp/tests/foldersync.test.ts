@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import { sp, Web, mirrorDirectory, exportFolder, FolderSyncProgressData, LocalFileInfo, LocalFileSystem } from "../";
+import { testSettings } from "../../../test/main";
+import { SPFetchClient } from "@pnp/nodejs";
+import { JsonFetchClient } from "./mock-fetchclient";
+
+/**
+ * Local file system held in memory, listing the supplied entries for each directory
+ */
+class MemoryFileSystem implements LocalFileSystem {
+
+    public written: string[] = [];
+
+    constructor(private directories: { [path: string]: LocalFileInfo[] } = {}) { }
+
+    public join(directory: string, name: string): string {
+        return `${directory}/${name}`;
+    }
+
+    public readDirectory(path: string): Promise<LocalFileInfo[]> {
+        return Promise.resolve(this.directories[path] || []);
+    }
+
+    public stat(): Promise<LocalFileInfo | null> {
+        return Promise.resolve(null);
+    }
+
+    public ensureDirectory(): Promise<boolean> {
+        return Promise.resolve(true);
+    }
+
+    public readFile(): Promise<ArrayBuffer> {
+        return Promise.resolve(new ArrayBuffer(3));
+    }
+
+    public createReadStream(): any {
+        return null;
+    }
+
+    public writeFile(path: string): Promise<void> {
+        this.written.push(path);
+        return Promise.resolve();
+    }
+}
+
+describe("Folder sync", () => {
+
+    const libraryPath = "/sites/dev/Shared Documents";
+    const folder = () => new Web("https://contoso.sharepoint.com/sites/dev").getFolderByServerRelativeUrl(libraryPath);
+    const summarize = (stages: FolderSyncProgressData[]) => stages.map(s => `${s.action} ${s.type} ${s.localPath}`);
+    let mockFetch: JsonFetchClient;
+
+    beforeEach(() => {
+
+        mockFetch = new JsonFetchClient(url => {
+
+            if (/folders\('[^']+'\)\/(files|folders)\?/.test(url)) {
+                return { value: [] };
+            }
+
+            if (/\/files\?/.test(url)) {
+                return { value: [{ Name: "b.txt", TimeLastModified: "2019-05-01T00:00:00Z" }] };
+            }
+
+            if (/\/folders\?/.test(url)) {
+                return { value: [{ Name: "Forms" }, { Name: "sub" }] };
+            }
+
+            return { ServerRelativeUrl: libraryPath };
+        });
+
+        sp.setup({
+            sp: {
+                fetchClientFactory: () => mockFetch,
+                headers: {
+                    "X-RequestDigest": "test",
+                },
+            },
+        });
+    });
+
+    after(() => {
+        if (testSettings.enableWebTests) {
+            sp.setup({
+                sp: {
+                    fetchClientFactory: () => {
+                        return new SPFetchClient(testSettings.sp.webUrl, testSettings.sp.id, testSettings.sp.secret);
+                    },
+                },
+            });
+        }
+    });
+
+    it("Should upload new and newer files and recycle the folders missing locally", () => {
+
+        const stages: FolderSyncProgressData[] = [];
+        const fileSystem = new MemoryFileSystem({
+            "./local": [
+                { isDirectory: false, modified: new Date("2019-06-01T00:00:00Z"), name: "a.txt", size: 3 },
+                { isDirectory: false, modified: new Date("2019-04-01T00:00:00Z"), name: "b.txt", size: 3 },
+            ],
+        });
+
+        return mirrorDirectory("./local", folder(), fileSystem, { progress: d => stages.push(d), recycleMissing: true }).then(() => {
+
+            expect(mockFetch.urls.filter(u => /files\/add/.test(u)).length).to.eq(1);
+            expect(summarize(stages)).to.deep.eq([
+                "uploaded file ./local/a.txt",
+                "skipped file ./local/b.txt",
+                "recycled folder ./local/sub",
+            ]);
+        });
+    });
+
+    it("Should download each file and sub folder except the forms of a library", () => {
+
+        const stages: FolderSyncProgressData[] = [];
+        const fileSystem = new MemoryFileSystem();
+
+        return exportFolder(folder(), "./local", fileSystem, { progress: d => stages.push(d) }).then(() => {
+
+            expect(fileSystem.written).to.deep.eq(["./local/b.txt"]);
+            expect(summarize(stages)).to.deep.eq([
+                "created folder ./local",
+                "downloaded file ./local/b.txt",
+                "created folder ./local/sub",
+            ]);
+        });
+    });
+});
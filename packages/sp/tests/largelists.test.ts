@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import { sp } from "../";
+import { testSettings } from "../../../test/main";
+import { SPFetchClient } from "@pnp/nodejs";
+import { JsonFetchClient } from "./mock-fetchclient";
+
+describe("Items by id range", () => {
+
+    // a list with ids 1 - 12 where 4 has been deleted
+    const ids = [1, 2, 3, 5, 6, 7, 8, 9, 10, 11, 12];
+
+    const mockFetch = new JsonFetchClient(url => {
+
+        if (/\$orderby=Id desc/.test(url)) {
+            return { value: [{ Id: 12 }] };
+        }
+
+        const range = /Id gt (\d+) and Id le (\d+)/.exec(url);
+        const even = /Title eq 'even'/.test(url);
+
+        return {
+            value: ids
+                .filter(id => id > parseInt(range[1], 10) && id <= parseInt(range[2], 10) && (!even || id % 2 === 0))
+                .map(id => ({ Id: id, Title: id % 2 === 0 ? "even" : "odd" })),
+        };
+    });
+
+    const items = () => sp.web.lists.getByTitle("BigList").items;
+
+    before(() => {
+        sp.setup({
+            sp: {
+                fetchClientFactory: () => mockFetch,
+                headers: {
+                    "X-RequestDigest": "test",
+                },
+            },
+        });
+    });
+
+    beforeEach(() => {
+        mockFetch.urls = [];
+    });
+
+    after(() => {
+        if (testSettings.enableWebTests) {
+            sp.setup({
+                sp: {
+                    fetchClientFactory: () => {
+                        return new SPFetchClient(testSettings.sp.webUrl, testSettings.sp.id, testSettings.sp.secret);
+                    },
+                },
+            });
+        }
+    });
+
+    it("Should read every item a window of ids at a time", () => {
+
+        return items().getAllByIdRange({ windowSize: 5 }).then(all => {
+            expect(all.map(i => i.Id)).to.deep.eq(ids);
+            // the max id and three windows
+            expect(mockFetch.urls).to.have.length(4);
+            expect(mockFetch.urls[1]).to.contain("$filter=Id gt 0 and Id le 5");
+            expect(mockFetch.urls[3]).to.contain("$filter=Id gt 10 and Id le 15");
+        });
+    });
+
+    it("Should apply the query filter within each window", () => {
+
+        return items().filter("Title eq 'even'").getAllByIdRange({ windowSize: 5 }).then(all => {
+            expect(all.map(i => i.Id)).to.deep.eq([2, 6, 8, 10, 12]);
+            expect(mockFetch.urls[1]).to.contain("$filter=Id gt 0 and Id le 5 and (Title eq 'even')");
+        });
+    });
+
+    it("Should apply the client filter and resume after the supplied id", () => {
+
+        return items().getAllByIdRange({ filter: i => i.Title === "odd", startAfterId: 6, windowSize: 5 }).then(all => {
+            expect(all.map(i => i.Id)).to.deep.eq([7, 9, 11]);
+            expect(mockFetch.urls[1]).to.contain("$filter=Id gt 6 and Id le 11");
+        });
+    });
+
+    it("Should keep select and return each window as a page", async () => {
+
+        const pages: any[][] = [];
+
+        for await (const page of items().select("Title").pagedByIdRange({ windowSize: 5 })) {
+            pages.push(page);
+        }
+
+        expect(pages.map(p => p.length)).to.deep.eq([4, 5, 2]);
+        expect(mockFetch.urls[1]).to.contain("$select=Title");
+    });
+
+    it("Should reject with a CancellationError once the signal is aborted", async () => {
+
+        const signal: AbortSignal = <any>{ aborted: false };
+        const pages = items().pagedByIdRange({ signal, windowSize: 5 });
+
+        await pages.next();
+        (<any>signal).aborted = true;
+
+        await expect(pages.next()).to.be.rejectedWith("cancelled");
+        expect(mockFetch.urls).to.have.length(2);
+    });
+});
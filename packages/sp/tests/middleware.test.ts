@@ -0,0 +1,95 @@
+import { expect } from "chai";
+import { sp } from "../";
+import { testSettings } from "../../../test/main";
+import { SPFetchClient } from "@pnp/nodejs";
+import { RequestContext, RequestMiddleware } from "@pnp/odata";
+import { MockFetchClient } from "./mock-fetchclient";
+
+describe("Request middleware", () => {
+
+    const mockFetch = new MockFetchClient();
+
+    beforeEach(() => {
+        sp.setup({
+            middleware: [],
+            sp: {
+                fetchClientFactory: () => mockFetch,
+            },
+        });
+    });
+
+    after(() => {
+        sp.setup({
+            middleware: [],
+        });
+        if (testSettings.enableWebTests) {
+            sp.setup({
+                sp: {
+                    fetchClientFactory: () => {
+                        return new SPFetchClient(testSettings.sp.webUrl, testSettings.sp.id, testSettings.sp.secret);
+                    },
+                },
+            });
+        }
+    });
+
+    it("Should allow global middleware to modify the request before it is sent", () => {
+        sp.setup({
+            middleware: [{
+                beforeSend: (context: RequestContext<any>) => {
+                    context.options.headers = { "x-middleware": "global" };
+                },
+            }],
+        });
+
+        return sp.web.get().then(() => {
+            expect(mockFetch.options.headers.get("x-middleware")).to.eq("global");
+        });
+    });
+
+    it("Should call queryable middleware after the response for the queryable and derived objects", () => {
+        const urls: string[] = [];
+        const middleware: RequestMiddleware = {
+            afterResponse: (context: RequestContext<any>) => {
+                expect(context.response.status).to.eq(200);
+                urls.push(context.requestAbsoluteUrl);
+            },
+        };
+
+        const web = sp.web.withMiddleware(middleware);
+
+        return web.get()
+            .then(() => web.lists.get())
+            .then(() => sp.web.get())
+            .then(() => {
+                expect(urls).to.have.length(2);
+                expect(urls[1]).to.match(/lists$/i);
+            });
+    });
+
+    it("Should call global middleware before queryable middleware", () => {
+        const calls: string[] = [];
+        sp.setup({
+            middleware: [{ beforeSend: () => { calls.push("global"); } }],
+        });
+
+        return sp.web.withMiddleware({ beforeSend: () => { calls.push("queryable"); } }).get().then(() => {
+            expect(calls).to.deep.eq(["global", "queryable"]);
+        });
+    });
+
+    it("Should call onError and still reject when processing fails", () => {
+        let error: Error = null;
+
+        return expect(sp.web.withMiddleware({
+            beforeSend: () => {
+                throw Error("blocked");
+            },
+            onError: (_: RequestContext<any>, e: Error) => {
+                error = e;
+            },
+        }).get()).to.be.rejectedWith("blocked").then(() => {
+            expect(error.message).to.eq("blocked");
+        });
+    });
+});
@@ -22,3 +22,61 @@ export class MockFetchClient implements HttpClientImpl {
         return Promise.resolve(response);
     }
 }
+
+/**
+ * Mock fetch client which also counts the requests sent
+ */
+export class CountingFetchClient extends MockFetchClient {
+
+    public count = 0;
+
+    public fetch(url: string, options: FetchOptions): Promise<Response> {
+        this.count++;
+        return super.fetch(url, options);
+    }
+}
+
+/**
+ * Mock fetch client which answers $batch requests with a success response for each request they contain
+ */
+export class BatchFetchClient extends MockFetchClient {
+
+    public bodies: string[] = [];
+
+    public fetch(url: string, options: FetchOptions): Promise<Response> {
+
+        this.options = options;
+        this.bodies.push(options.body);
+
+        const count = options.body.split("Content-Transfer-Encoding: binary").length - 1;
+        const lines: string[] = [];
+
+        for (let i = 0; i < count; i++) {
+            lines.push("--batchresponse_test", "Content-Type: application/http", "", "HTTP/1.1 200 OK", "Content-Type: application/json", "", `{"index":${i}}`);
+        }
+
+        lines.push("--batchresponse_test--", "");
+
+        return Promise.resolve(new Response(lines.join("\n"), { status: 200 }));
+    }
+}
+
+/**
+ * Mock fetch client which answers each request with the json returned by the supplied handler for its url
+ */
+export class JsonFetchClient extends MockFetchClient {
+
+    public urls: string[] = [];
+
+    constructor(private handler: (url: string) => any) {
+        super();
+    }
+
+    public fetch(url: string, options: FetchOptions): Promise<Response> {
+
+        this.options = options;
+        this.urls.push(url);
+
+        return Promise.resolve(new Response(JSON.stringify(this.handler(url)), { status: 200 }));
+    }
+}
@@ -0,0 +1,136 @@
+import { expect } from "chai";
+import { sp } from "../";
+import { ODataPage } from "@pnp/odata";
+import { testSettings } from "../../../test/main";
+import { SPFetchClient } from "@pnp/nodejs";
+import { JsonFetchClient } from "./mock-fetchclient";
+
+describe("Paging", () => {
+
+    const nextUrl = "https://test.sharepoint.com/_api/web/lists/getByTitle('Tasks')/items?%24skiptoken=Paged%3dTRUE%26p_ID%3d2&%24top=2";
+
+    // list items return a next link until the last page, other collections page using $skip
+    const mockFetch = new JsonFetchClient(url => {
+
+        if (/\/items/i.test(url)) {
+            return /skiptoken/i.test(url) ? { value: [{ Id: 3 }] } : { "odata.nextLink": nextUrl, "value": [{ Id: 1 }, { Id: 2 }] };
+        }
+
+        const skip = /\$skip=(\d+)/.exec(url);
+        const start = skip === null ? 0 : parseInt(skip[1], 10);
+        return { value: [{ Name: `${start}.txt` }, { Name: `${start + 1}.txt` }].slice(0, start < 4 ? 2 : 1) };
+    });
+
+    const items = () => sp.web.lists.getByTitle("Tasks").items.top(2);
+
+    before(() => {
+        sp.setup({
+            sp: {
+                fetchClientFactory: () => mockFetch,
+                headers: {
+                    "X-RequestDigest": "test",
+                },
+            },
+        });
+    });
+
+    beforeEach(() => {
+        mockFetch.urls = [];
+    });
+
+    after(() => {
+        if (testSettings.enableWebTests) {
+            sp.setup({
+                sp: {
+                    fetchClientFactory: () => {
+                        return new SPFetchClient(testSettings.sp.webUrl, testSettings.sp.id, testSettings.sp.secret);
+                    },
+                },
+            });
+        }
+    });
+
+    it("Should follow the next link of each page of items", async () => {
+
+        const pages: ODataPage[] = [];
+
+        for await (const page of items().paged()) {
+            pages.push(page);
+        }
+
+        expect(pages.map(p => p.results.length)).to.deep.eq([2, 1]);
+        expect(pages[0].nextUrl).to.eq(nextUrl);
+        expect(pages[1].nextUrl).to.be.null;
+        expect(mockFetch.urls[1]).to.eq(nextUrl);
+    });
+
+    it("Should iterate the individual items", async () => {
+
+        const ids: number[] = [];
+
+        for await (const item of items()) {
+            ids.push(item.Id);
+        }
+
+        expect(ids).to.deep.eq([1, 2, 3]);
+    });
+
+    it("Should iterate the individual items by calling next", async () => {
+
+        const iterator = items().iterate();
+        const ids: number[] = [];
+
+        for (let r = await iterator.next(); !r.done; r = await iterator.next()) {
+            ids.push(r.value.Id);
+        }
+
+        expect(ids).to.deep.eq([1, 2, 3]);
+    });
+
+    it("Should resume from a stored next url", async () => {
+
+        const pages: ODataPage[] = [];
+
+        for await (const page of items().paged({ nextUrl })) {
+            pages.push(page);
+        }
+
+        expect(pages).to.have.length(1);
+        expect(mockFetch.urls).to.deep.eq([nextUrl]);
+    });
+
+    it("Should page collections without a next link using $skip", async () => {
+
+        const names: string[] = [];
+
+        for await (const file of sp.web.getFolderByServerRelativeUrl("/sites/dev/Shared Documents").files.top(2)) {
+            names.push(file.Name);
+        }
+
+        expect(names).to.deep.eq(["0.txt", "1.txt", "2.txt", "3.txt", "4.txt"]);
+        expect(mockFetch.urls).to.have.length(3);
+        expect(mockFetch.urls[2]).to.match(/\$top=2&\$skip=4$/);
+    });
+
+    it("Should stop requesting pages when the loop exits early", async () => {
+
+        for await (const item of items()) {
+            expect(item.Id).to.eq(1);
+            break;
+        }
+
+        expect(mockFetch.urls).to.have.length(1);
+    });
+
+    it("Should reject with a CancellationError once the signal is aborted", async () => {
+
+        const signal: AbortSignal = <any>{ aborted: false };
+        const pages = items().paged({ signal });
+
+        await pages.next();
+        (<any>signal).aborted = true;
+
+        await expect(pages.next()).to.be.rejectedWith("cancelled");
+        expect(mockFetch.urls).to.have.length(1);
+    });
+});
@@ -0,0 +1,84 @@
+import { expect } from "chai";
+import { sp } from "../";
+import { testSettings } from "../../../test/main";
+import { SPFetchClient } from "@pnp/nodejs";
+import { Logger, LogLevel, LogEntry, LogListener, FunctionListener } from "@pnp/logging";
+import { MockFetchClient } from "./mock-fetchclient";
+
+describe("Structured logging", () => {
+
+    let entries: LogEntry[];
+    let level: LogLevel;
+    let subscribers: LogListener[];
+
+    before(() => {
+        sp.setup({
+            sp: {
+                fetchClientFactory: () => new MockFetchClient(),
+            },
+        });
+    });
+
+    beforeEach(() => {
+        entries = [];
+        level = Logger.activeLogLevel;
+        subscribers = Logger.clearSubscribers();
+        Logger.activeLogLevel = LogLevel.Info;
+        Logger.subscribe(new FunctionListener(e => entries.push(e)));
+    });
+
+    afterEach(() => {
+        Logger.clearSubscribers();
+        Logger.subscribe(...subscribers);
+        Logger.activeLogLevel = level;
+    });
+
+    after(() => {
+        if (testSettings.enableWebTests) {
+            sp.setup({
+                sp: {
+                    fetchClientFactory: () => {
+                        return new SPFetchClient(testSettings.sp.webUrl, testSettings.sp.id, testSettings.sp.secret);
+                    },
+                },
+            });
+        }
+    });
+
+    it("Should log start and end span events with request fields", () => {
+
+        return sp.web.get().then(() => {
+
+            const spans = entries.filter(e => e.span !== undefined);
+
+            expect(spans.map(e => e.span)).to.deep.eq(["start", "end"]);
+            expect(spans[0].fields.requestId).to.eq(spans[1].fields.requestId);
+            expect(spans[0].fields.verb).to.eq("GET");
+            expect(spans[0].fields.url).to.match(/_api\/web$/);
+            expect(spans[1].fields.status).to.eq(200);
+            expect(spans[1].fields.duration).to.be.at.least(0);
+            expect(spans[1].fields.retryCount).to.eq(0);
+            expect(spans[1].fields.cacheHit).to.be.false;
+        });
+    });
+
+    it("Should include the request fields in pipeline entries", () => {
+
+        return sp.web.get().then(() => {
+            const sending = entries.filter(e => /Sending request/.test(e.message));
+            expect(sending).to.have.length(1);
+            expect(sending[0].fields.verb).to.eq("GET");
+        });
+    });
+
+    it("Should record cache hits", () => {
+
+        return sp.web.invalidateCache().then(() => sp.web.select("Title").usingCaching().get()).then(() => {
+            entries = [];
+            return sp.web.select("Title").usingCaching().get();
+        }).then(() => {
+            const end = entries.filter(e => e.span === "end")[0];
+            expect(end.fields.cacheHit).to.be.true;
+        });
+    });
+});